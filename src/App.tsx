@@ -5,10 +5,13 @@ import { OverviewPanel } from './components/OverviewPanel';
 import { CellsPanel } from './components/CellsPanel';
 import { ProtectionPanel } from './components/ProtectionPanel';
 import { ConfigPanel } from './components/ConfigPanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { HistoryPanel } from './components/HistoryPanel';
 import { TrafficConsole } from './components/TrafficConsole';
 import { DecoderPanel } from './components/DecoderPanel';
+import { EmulatorPanel } from './components/EmulatorPanel';
 
-type Tab = 'overview' | 'cells' | 'protection' | 'config' | 'decoder';
+type Tab = 'overview' | 'cells' | 'protection' | 'config' | 'calibration' | 'history' | 'decoder' | 'emulator';
 
 const TABS: { id: Tab; label: string; icon: string }[] = [
   { id: 'overview', label: 'Overview', icon: 'M13 10V3L4 14h7v7l9-11h-7z' },
@@ -27,16 +30,32 @@ const TABS: { id: Tab; label: string; icon: string }[] = [
     label: 'Configuration',
     icon: 'M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.066 2.573c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.573 1.066c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.066-2.573c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z M15 12a3 3 0 11-6 0 3 3 0 016 0z',
   },
+  {
+    id: 'calibration',
+    label: 'Calibration',
+    icon: 'M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4',
+  },
+  {
+    id: 'history',
+    label: 'History',
+    icon: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
   {
     id: 'decoder',
     label: 'Decoder',
     icon: 'M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4',
   },
+  {
+    id: 'emulator',
+    label: 'Emulator',
+    icon: 'M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z',
+  },
 ];
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<Tab>('overview');
   const bms = useBMS();
+  const tabs = TABS.filter((tab) => tab.id !== 'emulator' || bms.emulator);
 
   return (
     <div className="min-h-screen bg-[var(--color-bg)]">
@@ -74,12 +93,14 @@ export default function App() {
           isPolling={bms.isPolling}
           lastUpdate={bms.lastUpdate}
           error={bms.error}
+          lastError={bms.lastError}
           isSupported={bms.isSupported}
           detectedPorts={bms.detectedPorts}
           isScanning={bms.isScanning}
           scanStatus={bms.scanStatus}
           onConnect={bms.connect}
           onConnectToPort={bms.connectToPort}
+          onConnectEmulator={bms.connectEmulator}
           onDisconnect={bms.disconnect}
           onStartPolling={bms.startPolling}
           onStopPolling={bms.stopPolling}
@@ -90,7 +111,7 @@ export default function App() {
 
         {/* Tab navigation */}
         <div className="flex gap-1 bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-1">
-          {TABS.map((tab) => (
+          {tabs.map((tab) => (
             <button
               key={tab.id}
               onClick={() => setActiveTab(tab.id)}
@@ -125,27 +146,61 @@ export default function App() {
               hardware={bms.hardware}
               cells={bms.cells}
               version={bms.version}
+              config={bms.config}
+              deviceId={bms.deviceId}
+              sessionId={bms.sessionId}
+              lastUpdate={bms.lastUpdate}
+              energy={bms.energy}
+              health={bms.health}
             />
           )}
           {activeTab === 'cells' && (
-            <CellsPanel hardware={bms.hardware} cells={bms.cells} />
+            <CellsPanel
+              hardware={bms.hardware}
+              cells={bms.cells}
+              config={bms.config}
+              deviceId={bms.deviceId}
+              sessionId={bms.sessionId}
+              lastUpdate={bms.lastUpdate}
+              resistance={bms.resistance}
+            />
           )}
           {activeTab === 'protection' && (
             <ProtectionPanel
               hardware={bms.hardware}
               onSetMosfet={bms.setMosfet}
+              onSetRemainingCapacity={bms.setRemainingCapacity}
+              onSetBalance={bms.setBalance}
+              onReboot={bms.reboot}
+              onFactoryReset={bms.factoryReset}
             />
           )}
           {activeTab === 'config' && (
             <ConfigPanel
+              config={bms.config}
+              version={bms.version}
+              isConnected={bms.connectionState === 'connected'}
+              onReadConfig={bms.readConfig}
+              onWriteConfig={bms.writeConfig}
+            />
+          )}
+          {activeTab === 'calibration' && (
+            <CalibrationPanel
+              hardware={bms.hardware}
+              cells={bms.cells}
               config={bms.config}
               isConnected={bms.connectionState === 'connected'}
+              onReadAll={bms.readAll}
               onReadConfig={bms.readConfig}
-              onWriteRegister={bms.writeRegister}
-              onWriteTempRegister={bms.writeTempRegister}
+              onWriteCalibration={bms.writeCalibration}
+              onWriteConfig={bms.writeConfig}
             />
           )}
+          {activeTab === 'history' && <HistoryPanel deviceId={bms.deviceId} />}
           {activeTab === 'decoder' && <DecoderPanel />}
+          {activeTab === 'emulator' && bms.emulator && (
+            <EmulatorPanel emulator={bms.emulator} />
+          )}
         </div>
 
         {/* Footer */}
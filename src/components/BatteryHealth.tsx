@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { END_OF_LIFE, currentEntries, fadeSeries, healthTracker, linearFit, summarizeHealth } from '../lib/health';
+
+interface Props {
+  deviceId: string;
+}
+
+// Chart geometry, in viewBox units
+const W = 600;
+const H = 220;
+const PAD = { left: 48, right: 12, top: 8, bottom: 24 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+/** Runs listed below the chart, newest first */
+const RECENT_RUNS = 10;
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function HealthCard({ label, value, sub, color }: { label: string; value: string; sub: string; color?: string }) {
+  return (
+    <div className="bg-[var(--color-surface-light)] rounded-lg p-3 flex flex-col">
+      <span className="text-xs font-medium text-[var(--color-text-muted)] uppercase tracking-wider">{label}</span>
+      <span className={`text-xl font-bold ${color ?? ''}`}>{value}</span>
+      <span className="text-xs text-[var(--color-text-muted)]">{sub}</span>
+    </div>
+  );
+}
+
+/** Capacity against cycles for one pack, with the fade fit projected to end of life */
+export function BatteryHealth({ deviceId }: Props) {
+  const [record, setRecord] = useState(() => healthTracker.record(deviceId));
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const handleReset = () => {
+    healthTracker.reset(deviceId);
+    setRecord(null);
+    setConfirmReset(false);
+  };
+
+  const summary = record ? summarizeHealth(record) : null;
+  const design = record?.designCapacity ?? null;
+  const fit = record ? linearFit(fadeSeries(record).map((p) => ({ x: p.cycles, y: p.capacityAh }))) : null;
+
+  // Entries from under an earlier design capacity are left out, as in the fit
+  const { points, runs } = record ? currentEntries(record) : { points: [], runs: [] };
+
+  const cycles = [...points.map((p) => p.cycles), ...runs.map((r) => r.cycles)];
+  const firstCycle = cycles.length ? Math.min(...cycles) : 0;
+  const lastCycle = cycles.length ? Math.max(...cycles) : 0;
+  // Extend the axis to the projected end of life, within reason
+  const eol = summary?.endOfLifeCycles ?? null;
+  const reach = Math.max(100, (lastCycle - firstCycle) * 3);
+  const maxCycle = Math.max(firstCycle + 1, lastCycle, eol !== null ? Math.min(eol, lastCycle + reach) : 0);
+
+  const capacities = [...points.map((p) => p.fullCapacity), ...runs.map((r) => r.capacityAh)];
+  if (design) capacities.push(design, design * END_OF_LIFE);
+  const top = Math.max(1, ...capacities) * 1.05;
+  const bottom = Math.min(top * 0.9, ...capacities) * 0.95;
+
+  const x = (c: number) => PAD.left + ((c - firstCycle) / (maxCycle - firstCycle)) * PLOT_W;
+  const y = (ah: number) => PAD.top + (1 - (ah - bottom) / (top - bottom)) * PLOT_H;
+
+  const learned = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.cycles)},${y(p.fullCapacity)}`).join('');
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Battery Health
+        </h3>
+        <span className="flex items-center gap-1 text-xs text-[var(--color-text-muted)]">
+          <span className="w-3 h-0.5 bg-purple-500" /> BMS learned
+          <span className="w-2 h-2 ml-2 rounded-full bg-[var(--color-primary)]" /> Measured run
+          <span className="w-2 h-2 ml-2 rounded-full border border-[var(--color-primary)]" /> Partial run
+        </span>
+        <div className="flex-1" />
+        {record &&
+          (confirmReset ? (
+            <>
+              <span className="text-xs text-red-600">Clear the health history for this pack?</span>
+              <button
+                onClick={() => setConfirmReset(false)}
+                className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReset}
+                className="px-3 py-1.5 text-xs bg-red-600 hover:bg-red-700 text-white rounded-lg cursor-pointer"
+              >
+                Clear
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setConfirmReset(true)}
+              className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+            >
+              Reset history…
+            </button>
+          ))}
+      </div>
+
+      {!record || !summary ? (
+        <p className="text-sm text-[var(--color-text-muted)]">No capacity history for this pack yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <HealthCard
+              label="State of Health"
+              value={percent(summary.soh)}
+              sub={
+                summary.source === 'measured'
+                  ? `From a measured run · BMS ${percent(summary.bmsSoh)}`
+                  : summary.source === 'bms'
+                    ? 'From the BMS learned capacity'
+                    : 'Read the config for the design capacity'
+              }
+              color={summary.soh !== null && summary.soh < END_OF_LIFE ? 'text-red-600' : 'text-emerald-600'}
+            />
+            <HealthCard
+              label="Fade"
+              value={summary.fadePer100Cycles !== null ? `${(summary.fadePer100Cycles * 100).toFixed(2)}%` : '—'}
+              sub="of design capacity per 100 cycles"
+            />
+            <HealthCard
+              label={`End of Life (${END_OF_LIFE * 100}%)`}
+              value={summary.endOfLifeCycles !== null ? `${Math.round(summary.endOfLifeCycles)} cycles` : '—'}
+              sub={
+                summary.endOfLifeDate !== null
+                  ? `Around ${new Date(summary.endOfLifeDate).toLocaleDateString()} at the current rate`
+                  : 'Needs fade over several cycles'
+              }
+            />
+          </div>
+
+          <svg viewBox={`0 0 ${W} ${H}`} className="w-full">
+            {[top, (top + bottom) / 2, bottom].map((ah) => (
+              <g key={ah}>
+                <line x1={PAD.left} x2={W - PAD.right} y1={y(ah)} y2={y(ah)} stroke="var(--color-border)" />
+                <text x={PAD.left - 6} y={y(ah) + 3} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+                  {ah.toFixed(1)} Ah
+                </text>
+              </g>
+            ))}
+            {[firstCycle, (firstCycle + maxCycle) / 2, maxCycle].map((c) => (
+              <text key={c} x={x(c)} y={H - 6} textAnchor="middle" fontSize="10" fill="var(--color-text-muted)">
+                {Math.round(c)}
+              </text>
+            ))}
+            {design && (
+              <>
+                <line x1={PAD.left} x2={W - PAD.right} y1={y(design)} y2={y(design)} stroke="#10b981" strokeDasharray="2 3" />
+                <line
+                  x1={PAD.left}
+                  x2={W - PAD.right}
+                  y1={y(design * END_OF_LIFE)}
+                  y2={y(design * END_OF_LIFE)}
+                  stroke="#ef4444"
+                  strokeDasharray="2 3"
+                />
+                <text x={W - PAD.right} y={y(design) - 3} textAnchor="end" fontSize="10" fill="#10b981">
+                  Design
+                </text>
+                <text x={W - PAD.right} y={y(design * END_OF_LIFE) - 3} textAnchor="end" fontSize="10" fill="#ef4444">
+                  End of life
+                </text>
+              </>
+            )}
+            {fit && (
+              <line
+                x1={x(firstCycle)}
+                x2={x(maxCycle)}
+                y1={y(fit.a + fit.b * firstCycle)}
+                y2={y(fit.a + fit.b * maxCycle)}
+                stroke="var(--color-text-muted)"
+                strokeDasharray="6 4"
+              />
+            )}
+            {learned && <path d={learned} fill="none" stroke="#a855f7" strokeWidth="2" />}
+            {runs.map((r) => (
+              <circle
+                key={r.startedAt}
+                cx={x(r.cycles)}
+                cy={y(r.capacityAh)}
+                r="3.5"
+                fill={r.complete ? 'var(--color-primary)' : 'var(--color-surface)'}
+                stroke="var(--color-primary)"
+              >
+                <title>
+                  {`${new Date(r.startedAt).toLocaleString()} · ${r.cycles} cycles · ${r.capacityAh.toFixed(2)} Ah ` +
+                    `(${r.startSoc}% → ${r.endSoc}%)`}
+                </title>
+              </circle>
+            ))}
+          </svg>
+          <p className="text-xs text-[var(--color-text-muted)]">
+            Runs are discharges that start from full; ones stopping short of empty are scaled by the SOC they
+            covered. The dashed line is the fade fit, through measured runs when there are two or more.
+          </p>
+
+          {runs.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-[var(--color-surface-light)]">
+                  <th className="text-left px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Run</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Cycles</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">SOC</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Discharged</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Capacity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs
+                  .slice(-RECENT_RUNS)
+                  .reverse()
+                  .map((r) => (
+                    <tr key={r.startedAt} className="border-t border-[var(--color-border)]">
+                      <td className="px-3 py-1.5 font-mono">{new Date(r.startedAt).toLocaleString()}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{r.cycles}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">
+                        {r.startSoc}% → {r.endSoc}%
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono">{r.dischargedAh.toFixed(2)} Ah</td>
+                      <td className="px-3 py-1.5 text-right font-mono">
+                        {r.capacityAh.toFixed(2)} Ah{design ? ` · ${percent(r.capacityAh / design)}` : ''}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
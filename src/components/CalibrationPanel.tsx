@@ -0,0 +1,433 @@
+import { useState } from 'react';
+import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from '../lib/jbd-protocol';
+import { diffConfig, type RegisterWrite } from '../lib/jbd-registers';
+import {
+  CALIBRATION_STEPS,
+  cellCalibrationWrites,
+  correctedSenseResistor,
+  currentCalibrationWrite,
+  errorPercent,
+  packCalibrationWrites,
+  zeroCurrentWrite,
+  type CalibrationStep,
+} from '../lib/calibration';
+
+interface Reading {
+  hardware: BMSHardwareInfo;
+  cells: BMSCellInfo;
+}
+
+interface Props {
+  hardware: BMSHardwareInfo | null;
+  cells: BMSCellInfo | null;
+  config: BMSConfig | null;
+  isConnected: boolean;
+  /** Fresh HWINFO + CELLINFO read; null on failure */
+  onReadAll: () => Promise<Reading | null>;
+  onReadConfig: () => Promise<void>;
+  onWriteCalibration: (writes: RegisterWrite[]) => Promise<void>;
+  onWriteConfig: (changes: RegisterWrite[]) => Promise<void>;
+}
+
+interface StepResult {
+  before: string;
+  after: string;
+}
+
+const inputClass =
+  'w-24 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-right text-sm font-mono';
+
+const pct = (e: number) => `${e >= 0 ? '+' : ''}${e.toFixed(2)}%`;
+
+/** Largest absolute cell error against the entered measurements, mV */
+function worstCellError(cells: BMSCellInfo, measuredMv: (number | null)[]): string {
+  const errors = measuredMv.flatMap((mv, i) =>
+    mv === null || cells.cellVoltages[i] === undefined ? [] : [cells.cellVoltages[i] * 1000 - mv]
+  );
+  if (errors.length === 0) return '—';
+  const worst = errors.reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+  return `${worst >= 0 ? '+' : ''}${worst.toFixed(0)} mV worst cell`;
+}
+
+function parseNumber(text: string): number | null {
+  const v = Number(text);
+  return text.trim() === '' || isNaN(v) ? null : v;
+}
+
+export function CalibrationPanel({
+  hardware,
+  cells,
+  config,
+  isConnected,
+  onReadAll,
+  onReadConfig,
+  onWriteCalibration,
+  onWriteConfig,
+}: Props) {
+  const [step, setStep] = useState<CalibrationStep>('zero');
+  const [results, setResults] = useState<Partial<Record<CalibrationStep, StepResult>>>({});
+  const [reference, setReference] = useState('');
+  const [cellInputs, setCellInputs] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verified, setVerified] = useState<Reading | null>(null);
+
+  if (!hardware || !cells) {
+    return (
+      <div className="flex items-center justify-center h-64 text-[var(--color-text-muted)]">
+        No data available
+      </div>
+    );
+  }
+
+  const index = CALIBRATION_STEPS.findIndex((s) => s.id === step);
+  const current = CALIBRATION_STEPS[index];
+  const referenceValue = parseNumber(reference);
+  const measuredCells = cells.cellVoltages.map((_, i) => parseNumber(cellInputs[i] ?? ''));
+
+  const goTo = (next: CalibrationStep) => {
+    setStep(next);
+    setReference('');
+    setError(null);
+  };
+
+  /** Apply a step, re-read HWINFO/CELLINFO and record the error either side */
+  const run = async (
+    id: CalibrationStep,
+    before: string,
+    apply: () => Promise<void>,
+    after: (reading: Reading) => string
+  ) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await apply();
+      const reading = await onReadAll();
+      if (!reading) throw new Error('Could not re-read the BMS after calibrating');
+      setResults((prev) => ({ ...prev, [id]: { before, after: after(reading) } }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleZero = () =>
+    run(
+      'zero',
+      `${hardware.current.toFixed(2)} A`,
+      () => onWriteCalibration([zeroCurrentWrite()]),
+      (r) => `${r.hardware.current.toFixed(2)} A`
+    );
+
+  const handleCurrent = (direction: 'charge' | 'discharge') => {
+    if (referenceValue === null || referenceValue <= 0) return;
+    const signed = direction === 'charge' ? referenceValue : -referenceValue;
+    return run(
+      direction,
+      pct(errorPercent(hardware.current, signed)),
+      () => onWriteCalibration([currentCalibrationWrite(signed)]),
+      (r) => pct(errorPercent(r.hardware.current, signed))
+    );
+  };
+
+  const handleCells = () =>
+    run(
+      'cells',
+      worstCellError(cells, measuredCells),
+      () => onWriteCalibration(cellCalibrationWrites(measuredCells)),
+      (r) => worstCellError(r.cells, measuredCells)
+    );
+
+  const handlePack = () => {
+    if (referenceValue === null || referenceValue <= 0) return;
+    return run(
+      'pack',
+      pct(errorPercent(hardware.voltage, referenceValue)),
+      () => onWriteCalibration(packCalibrationWrites(cells.cellVoltages.map((v) => v * 1000), referenceValue)),
+      (r) => pct(errorPercent(r.hardware.voltage, referenceValue))
+    );
+  };
+
+  // Sense resistor: the reference carries the sign of the current flowing
+  const senseReference =
+    referenceValue !== null && referenceValue > 0 && hardware.current !== 0
+      ? Math.sign(hardware.current) * referenceValue
+      : null;
+  const proposedSense =
+    config && senseReference !== null
+      ? correctedSenseResistor(config.senseResistor, hardware.current, senseReference)
+      : null;
+
+  const handleSense = () => {
+    if (!config || senseReference === null || proposedSense === null) return;
+    return run(
+      'sense',
+      pct(errorPercent(hardware.current, senseReference)),
+      async () => {
+        await onWriteConfig(diffConfig(config, { ...config, senseResistor: proposedSense }));
+        await onReadConfig();
+      },
+      (r) => pct(errorPercent(r.hardware.current, senseReference))
+    );
+  };
+
+  const handleVerify = async () => {
+    setBusy(true);
+    setError(null);
+    const reading = await onReadAll();
+    if (!reading) setError('Could not read HWINFO and CELLINFO');
+    setVerified(reading);
+    setBusy(false);
+  };
+
+  const disabled = !isConnected || busy;
+  const result = results[step];
+
+  return (
+    <div className="space-y-4">
+      {/* Steps */}
+      <div className="flex flex-wrap gap-1 bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-1">
+        {CALIBRATION_STEPS.map((s, i) => (
+          <button
+            key={s.id}
+            onClick={() => goTo(s.id)}
+            disabled={busy}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium cursor-pointer ${
+              s.id === step
+                ? 'bg-[var(--color-primary)] text-white'
+                : 'text-[var(--color-text-muted)] hover:bg-[var(--color-surface-light)]'
+            }`}
+          >
+            <span
+              className={`w-5 h-5 rounded-full flex items-center justify-center ${
+                results[s.id] ? 'bg-emerald-500 text-white' : 'bg-[var(--color-surface-light)]'
+              }`}
+            >
+              {results[s.id] ? '✓' : i + 1}
+            </span>
+            {s.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-4">
+        <div>
+          <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            {index + 1}. {current.title}
+          </h3>
+          <p className="text-sm mt-1">{current.instructions}</p>
+        </div>
+
+        {/* Live reading */}
+        <div className="flex flex-wrap gap-6 text-sm">
+          <span>
+            <span className="text-[var(--color-text-muted)]">BMS current </span>
+            <span className="font-mono">{hardware.current.toFixed(2)} A</span>
+          </span>
+          <span>
+            <span className="text-[var(--color-text-muted)]">BMS pack voltage </span>
+            <span className="font-mono">{hardware.voltage.toFixed(2)} V</span>
+          </span>
+          {config && (
+            <span>
+              <span className="text-[var(--color-text-muted)]">Sense resistor </span>
+              <span className="font-mono">{config.senseResistor.toFixed(1)} mΩ</span>
+            </span>
+          )}
+        </div>
+
+        {/* Step inputs */}
+        {step === 'zero' && (
+          <button
+            onClick={handleZero}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+          >
+            Zero current offset
+          </button>
+        )}
+
+        {(step === 'charge' || step === 'discharge' || step === 'pack' || step === 'sense') && (
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm">
+              Reference reading
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                className={inputClass}
+              />
+              <span className="text-xs text-[var(--color-text-muted)]">{step === 'pack' ? 'V' : 'A'}</span>
+            </label>
+            {referenceValue !== null && referenceValue > 0 && (
+              <span className="text-xs text-[var(--color-text-muted)]">
+                Error now{' '}
+                {step === 'pack'
+                  ? pct(errorPercent(hardware.voltage, referenceValue))
+                  : pct(errorPercent(Math.abs(hardware.current), referenceValue))}
+              </span>
+            )}
+            {step === 'charge' && (
+              <button
+                onClick={() => handleCurrent('charge')}
+                disabled={disabled || referenceValue === null || referenceValue <= 0 || hardware.current <= 0}
+                className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+              >
+                Calibrate charge current
+              </button>
+            )}
+            {step === 'discharge' && (
+              <button
+                onClick={() => handleCurrent('discharge')}
+                disabled={disabled || referenceValue === null || referenceValue <= 0 || hardware.current >= 0}
+                className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+              >
+                Calibrate discharge current
+              </button>
+            )}
+            {step === 'pack' && (
+              <button
+                onClick={handlePack}
+                disabled={disabled || referenceValue === null || referenceValue <= 0}
+                className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+              >
+                Calibrate pack voltage
+              </button>
+            )}
+            {step === 'sense' && (
+              <>
+                {!config ? (
+                  <button
+                    onClick={onReadConfig}
+                    disabled={disabled}
+                    className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+                  >
+                    Read configuration first
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSense}
+                    disabled={disabled || proposedSense === null || proposedSense === config.senseResistor}
+                    className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+                  >
+                    {proposedSense === null
+                      ? 'Write sense resistor'
+                      : `Write ${config.senseResistor.toFixed(1)} → ${proposedSense.toFixed(1)} mΩ`}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'cells' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-2">
+              {cells.cellVoltages.map((v, i) => (
+                <label key={i} className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+                  Cell {i + 1} · {(v * 1000).toFixed(0)} mV
+                  <input
+                    type="number"
+                    placeholder="mV"
+                    value={cellInputs[i] ?? ''}
+                    onChange={(e) => {
+                      const next = [...cellInputs];
+                      next[i] = e.target.value;
+                      setCellInputs(next);
+                    }}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleCells}
+              disabled={disabled || measuredCells.every((mv) => mv === null)}
+              className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+            >
+              Calibrate {measuredCells.filter((mv) => mv !== null).length} cell(s)
+            </button>
+          </div>
+        )}
+
+        {step === 'verify' && (
+          <div className="space-y-3">
+            <button
+              onClick={handleVerify}
+              disabled={disabled}
+              className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+            >
+              Read HWINFO + CELLINFO
+            </button>
+            {verified && (
+              <div className="text-sm space-y-1">
+                <p>
+                  Pack <span className="font-mono">{verified.hardware.voltage.toFixed(2)} V</span> · Current{' '}
+                  <span className="font-mono">{verified.hardware.current.toFixed(2)} A</span>
+                </p>
+                <p className="font-mono text-xs text-[var(--color-text-muted)]">
+                  {verified.cells.cellVoltages.map((v) => (v * 1000).toFixed(0)).join(' · ')} mV
+                </p>
+              </div>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-[var(--color-text-muted)]">
+                  <th className="text-left py-1">Step</th>
+                  <th className="text-right py-1">Before</th>
+                  <th className="text-right py-1">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CALIBRATION_STEPS.filter((s) => s.id !== 'verify').map((s) => (
+                  <tr key={s.id} className="border-t border-[var(--color-border)]">
+                    <td className="py-1">{s.title}</td>
+                    <td className="py-1 text-right font-mono text-[var(--color-text-muted)]">
+                      {results[s.id]?.before ?? 'skipped'}
+                    </td>
+                    <td className="py-1 text-right font-mono">{results[s.id]?.after ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Outcome */}
+        {result && step !== 'verify' && (
+          <div className="flex gap-6 text-sm border-t border-[var(--color-border)] pt-3">
+            <span>
+              <span className="text-[var(--color-text-muted)]">Error before </span>
+              <span className="font-mono">{result.before}</span>
+            </span>
+            <span>
+              <span className="text-[var(--color-text-muted)]">after </span>
+              <span className="font-mono text-emerald-600">{result.after}</span>
+            </span>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="flex justify-between border-t border-[var(--color-border)] pt-3">
+          <button
+            onClick={() => goTo(CALIBRATION_STEPS[index - 1].id)}
+            disabled={busy || index === 0}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => goTo(CALIBRATION_STEPS[index + 1].id)}
+            disabled={busy || index === CALIBRATION_STEPS.length - 1}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+          >
+            {results[step] ? 'Next' : 'Skip'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { isCellBalancing } from '../lib/jbd-protocol';
+import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from '../lib/jbd-protocol';
+import { rangeOf, type TelemetryRecord } from '../lib/history';
+import { useChartWindow, useTelemetryHistory } from '../hooks/useTelemetryHistory';
+import { TimeSeriesChart, type ChartSeries } from './TimeSeriesChart';
+import { WindowPicker } from './TelemetryCharts';
+
+interface Props {
+  deviceId: string | null;
+  sessionId: string | null;
+  hardware: BMSHardwareInfo | null;
+  cells: BMSCellInfo | null;
+  lastUpdate: Date | null;
+  /** When read, draws the cell OV/UV thresholds */
+  config: BMSConfig | null;
+}
+
+// Heatmap geometry, in viewBox units
+const W = 600;
+const ROW_H = 12;
+const PAD = { left: 48, right: 12, top: 4, bottom: 18 };
+const PLOT_W = W - PAD.left - PAD.right;
+const COLUMNS = 120;
+
+/** Deviation that saturates the heatmap colour scale, at least this many mV */
+const MIN_SCALE_MV = 10;
+
+export function cellColor(index: number, count: number): string {
+  return `hsl(${Math.round((index * 360) / Math.max(count, 1))}, 70%, 45%)`;
+}
+
+/** Blue below the pack mean, red above, white at the mean */
+function deviationColor(mv: number, scale: number): string {
+  const t = Math.min(1, Math.abs(mv) / scale);
+  const fade = Math.round(255 * (1 - t));
+  return mv < 0 ? `rgb(${fade}, ${fade}, 255)` : `rgb(255, ${fade}, ${fade})`;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+interface HeatColumn {
+  from: number;
+  /** Per cell: mean deviation from the pack mean, mV */
+  deviation: number[];
+  /** Per cell: balanced at any point in the column */
+  balancing: boolean[];
+}
+
+/** Bucket records into fixed-width columns across the window */
+function heatColumns(records: TelemetryRecord[], from: number, to: number, cellCount: number): HeatColumn[] {
+  const width = (to - from) / COLUMNS;
+  const buckets: TelemetryRecord[][] = Array.from({ length: COLUMNS }, () => []);
+  for (const r of records) {
+    const column = Math.min(COLUMNS - 1, Math.floor((r.time + r.resolution / 2 - from) / width));
+    if (column >= 0) buckets[column].push(r);
+  }
+  return buckets.flatMap((bucket, c) => {
+    const usable = bucket.filter((r) => r.cells.cellVoltages.length >= cellCount);
+    if (usable.length === 0) return [];
+    const deviations = usable.map((r) => {
+      const avg = mean(r.cells.cellVoltages);
+      return r.cells.cellVoltages.map((v) => (v - avg) * 1000);
+    });
+    return [
+      {
+        from: from + c * width,
+        deviation: Array.from({ length: cellCount }, (_, i) => mean(deviations.map((d) => d[i]))),
+        balancing: Array.from({ length: cellCount }, (_, i) => usable.some((r) => isCellBalancing(r.hardware, i))),
+      },
+    ];
+  });
+}
+
+function CellHeatmap({ records, from, to }: { records: TelemetryRecord[]; from: number; to: number }) {
+  const cellCount = Math.max(0, ...records.map((r) => r.cells.cellVoltages.length));
+  const columns = heatColumns(records, from, to, cellCount);
+  const scale = Math.max(MIN_SCALE_MV, ...columns.flatMap((c) => c.deviation.map(Math.abs)));
+  const columnW = PLOT_W / COLUMNS;
+  const height = PAD.top + cellCount * ROW_H + PAD.bottom;
+  const x = (time: number) => PAD.left + ((time - from) / (to - from)) * PLOT_W;
+  const clock = (time: number) =>
+    new Date(time).toLocaleString([], { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4">
+      <div className="flex flex-wrap items-baseline gap-3 mb-2">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Imbalance Heatmap
+        </h3>
+        <span className="text-xs text-[var(--color-text-muted)]">deviation from pack mean</span>
+        <div className="flex-1" />
+        <span className="flex items-center gap-1 text-xs text-[var(--color-text-muted)]">
+          <span className="w-3 h-3" style={{ backgroundColor: deviationColor(-scale, scale) }} />−{scale.toFixed(0)} mV
+          <span className="w-3 h-3 ml-2" style={{ backgroundColor: deviationColor(scale, scale) }} />+{scale.toFixed(0)} mV
+          <span className="w-3 h-3 ml-2 border-2 border-yellow-400" /> Balancing
+        </span>
+      </div>
+
+      {cellCount === 0 ? (
+        <p className="text-xs text-[var(--color-text-muted)] py-6 text-center">No data in this window</p>
+      ) : (
+        <svg viewBox={`0 0 ${W} ${height}`} className="w-full select-none">
+          {Array.from({ length: cellCount }, (_, i) => (
+            <text
+              key={i}
+              x={PAD.left - 6}
+              y={PAD.top + i * ROW_H + ROW_H - 3}
+              textAnchor="end"
+              fontSize="9"
+              fill="var(--color-text-muted)"
+            >
+              {i + 1}
+            </text>
+          ))}
+          {columns.map((c) =>
+            c.deviation.map((mv, i) => (
+              <rect
+                key={`${c.from}-${i}`}
+                x={x(c.from)}
+                y={PAD.top + i * ROW_H}
+                width={columnW}
+                height={ROW_H}
+                fill={deviationColor(mv, scale)}
+              >
+                <title>
+                  {`Cell ${i + 1} · ${clock(c.from)} · ${mv >= 0 ? '+' : ''}${mv.toFixed(1)} mV${c.balancing[i] ? ' · balancing' : ''}`}
+                </title>
+              </rect>
+            ))
+          )}
+          {/* Balancing overlay */}
+          {columns.map((c) =>
+            c.balancing.map((on, i) =>
+              on ? (
+                <rect
+                  key={`b-${c.from}-${i}`}
+                  x={x(c.from) + 0.5}
+                  y={PAD.top + i * ROW_H + 0.5}
+                  width={columnW - 1}
+                  height={ROW_H - 1}
+                  fill="none"
+                  stroke="#facc15"
+                  strokeWidth="1"
+                  pointerEvents="none"
+                />
+              ) : null
+            )
+          )}
+          <text x={PAD.left} y={height - 5} fontSize="10" fill="var(--color-text-muted)">
+            {clock(from)}
+          </text>
+          <text x={W - PAD.right} y={height - 5} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+            {clock(to)}
+          </text>
+        </svg>
+      )}
+    </div>
+  );
+}
+
+export function CellHistory({ deviceId, sessionId, hardware, cells, lastUpdate, config }: Props) {
+  const { view, setView, zoom, pan } = useChartWindow();
+  const { records, from, to, loading } = useTelemetryHistory(
+    { deviceId, sessionId, hardware, cells, lastUpdate },
+    view
+  );
+
+  const cellCount = Math.max(0, ...records.map((r) => r.cells.cellVoltages.length));
+  const time = (r: TelemetryRecord) => r.time + r.resolution / 2;
+  const spread = (r: TelemetryRecord) => {
+    const [low, high] = rangeOf(r).cell;
+    return (high - low) * 1000;
+  };
+
+  const series: ChartSeries[] = [
+    // Pack mean with the lowest to highest cell behind the individual cells
+    {
+      label: 'Mean',
+      color: '#94a3b8',
+      points: records.map((r) => {
+        const [low, high] = rangeOf(r).cell;
+        return { time: time(r), value: mean(r.cells.cellVoltages) * 1000, min: low * 1000, max: high * 1000 };
+      }),
+    },
+    ...Array.from({ length: cellCount }, (_, i) => ({
+      label: `Cell ${i + 1}`,
+      color: cellColor(i, cellCount),
+      points: records
+        .filter((r) => i < r.cells.cellVoltages.length)
+        .map((r) => ({ time: time(r), value: r.cells.cellVoltages[i] * 1000 })),
+    })),
+  ];
+
+  const chart = { from, to, onZoom: zoom, onPan: pan, digits: 0 };
+
+  return (
+    <div className="space-y-3">
+      <WindowPicker view={view} onChange={setView} loading={loading} />
+      <TimeSeriesChart
+        {...chart}
+        title="Cell Voltage History"
+        unit="mV"
+        series={series}
+        references={
+          config
+            ? [
+                { label: 'Cell OV', value: config.cellOverVoltage, color: '#ef4444' },
+                { label: 'Cell UV', value: config.cellUnderVoltage, color: '#3b82f6' },
+              ]
+            : []
+        }
+      />
+      <TimeSeriesChart
+        {...chart}
+        title="Cell Delta"
+        unit="mV · highest minus lowest"
+        series={[
+          {
+            label: 'Delta',
+            color: '#dc2626',
+            points: records.map((r) => {
+              const v = r.cells.cellVoltages;
+              const delta = v.length > 0 ? (Math.max(...v) - Math.min(...v)) * 1000 : 0;
+              // Aggregates also show the widest spread seen in the bucket
+              return r.range
+                ? { time: time(r), value: delta, min: delta, max: Math.max(delta, spread(r)) }
+                : { time: time(r), value: delta };
+            }),
+          },
+        ]}
+      />
+      <CellHeatmap records={records} from={from} to={to} />
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import {
+  HIGH_IR_RATIO,
+  minStepCurrent,
+  resistanceTracker,
+  type CellResistance as CellIR,
+  type ResistanceRecord,
+} from '../lib/resistance';
+import { useChartWindow } from '../hooks/useTelemetryHistory';
+import { TimeSeriesChart } from './TimeSeriesChart';
+import { cellColor } from './CellHistory';
+
+interface Props {
+  deviceId: string;
+  record: ResistanceRecord | null;
+  /** Current estimate per cell, from the recent steps */
+  estimates: CellIR[];
+  fullCapacity: number;
+}
+
+const TREND_SPAN = 30 * 24 * 60 * 60 * 1000;
+
+/** Per-cell DC resistance from load steps, with its daily trend */
+export function CellResistance({ deviceId, record, estimates, fullCapacity }: Props) {
+  const { view, zoom, pan } = useChartWindow(TREND_SPAN);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const steps = record?.steps ?? [];
+  const trend = record?.trend ?? [];
+  const high = estimates.flatMap((e, i) => (e.high ? [i + 1] : []));
+  const to = view.end ?? Date.now();
+
+  const handleReset = () => {
+    resistanceTracker.reset(deviceId);
+    setConfirmReset(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            Internal Resistance
+          </h3>
+          <span className="text-xs text-[var(--color-text-muted)]">
+            {steps.length} load step{steps.length === 1 ? '' : 's'}
+            {steps.length > 0 && `, last ${new Date(steps[steps.length - 1].time).toLocaleString()}`}
+          </span>
+          <div className="flex-1" />
+          {steps.length > 0 &&
+            (confirmReset ? (
+              <>
+                <span className="text-xs text-red-600">Clear the resistance history for this pack?</span>
+                <button
+                  onClick={() => setConfirmReset(false)}
+                  className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="px-3 py-1.5 text-xs bg-red-600 hover:bg-red-700 text-white rounded-lg cursor-pointer"
+                >
+                  Clear
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirmReset(true)}
+                className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+              >
+                Reset history…
+              </button>
+            ))}
+        </div>
+        {high.length > 0 && (
+          <p className="text-sm text-red-600">
+            High resistance on cell{high.length === 1 ? '' : 's'} {high.join(', ')}: check the cell and its busbar
+            connections.
+          </p>
+        )}
+        <p className="text-xs text-[var(--color-text-muted)]">
+          Each cell's voltage change over a current change of at least {minStepCurrent(fullCapacity).toFixed(1)} A
+          between polls, from the last steady current. Readings far from a cell's usual value are discarded; a cell
+          more than {HIGH_IR_RATIO}× the pack median is flagged.
+        </p>
+      </div>
+
+      {trend.length > 0 && (
+        <TimeSeriesChart
+          title="Internal Resistance Trend"
+          unit="mΩ · daily"
+          from={to - view.span}
+          to={to}
+          digits={2}
+          onZoom={zoom}
+          onPan={pan}
+          series={estimates.map((_, i) => ({
+            label: `Cell ${i + 1}`,
+            color: cellColor(i, estimates.length),
+            points: trend.flatMap((p) => {
+              const value = p.resistances[i];
+              return value === null || value === undefined ? [] : [{ time: p.time, value }];
+            }),
+          }))}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
-import type { BMSHardwareInfo, BMSCellInfo } from '../lib/jbd-protocol';
+import { isCellBalancing } from '../lib/jbd-protocol';
+import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from '../lib/jbd-protocol';
+import { cellResistances, type ResistanceRecord } from '../lib/resistance';
+import { CellHistory } from './CellHistory';
+import { CellResistance } from './CellResistance';
 
 interface Props {
   hardware: BMSHardwareInfo | null;
   cells: BMSCellInfo | null;
+  config: BMSConfig | null;
+  deviceId: string | null;
+  sessionId: string | null;
+  lastUpdate: Date | null;
+  /** Load steps seen on this pack, for the per-cell resistance */
+  resistance: ResistanceRecord | null;
 }
 
-export function CellsPanel({ hardware, cells }: Props) {
+export function CellsPanel({ hardware, cells, config, deviceId, sessionId, lastUpdate, resistance }: Props) {
   if (!cells || !hardware) {
     return (
       <div className="flex items-center justify-center h-64 text-[var(--color-text-muted)]">
@@ -32,12 +42,10 @@ export function CellsPanel({ hardware, cells }: Props) {
   const barMax = maxV + 0.05;
   const barRange = barMax - barMin;
 
-  const getBalanceBit = (index: number): boolean => {
-    if (index < 16) {
-      return (hardware.balanceLow & (1 << index)) !== 0;
-    }
-    return (hardware.balanceHigh & (1 << (index - 16))) !== 0;
-  };
+  const getBalanceBit = (index: number): boolean => isCellBalancing(hardware, index);
+
+  const estimates = resistance ? cellResistances(resistance, voltages.length) : [];
+  const isHighIR = (index: number): boolean => estimates[index]?.high ?? false;
 
   return (
     <div className="space-y-4">
@@ -100,7 +108,10 @@ export function CellsPanel({ hardware, cells }: Props) {
                 </div>
 
                 {/* Cell number */}
-                <span className="text-[10px] text-[var(--color-text-muted)]">
+                <span
+                  className={`text-[10px] ${isHighIR(i) ? 'text-red-600 font-bold' : 'text-[var(--color-text-muted)]'}`}
+                  title={isHighIR(i) ? 'High internal resistance' : undefined}
+                >
                   {i + 1}
                 </span>
               </div>
@@ -122,6 +133,11 @@ export function CellsPanel({ hardware, cells }: Props) {
           <div className="flex items-center gap-1">
             <div className="w-2 h-2 rounded-full bg-yellow-400 animate-pulse" /> Balancing
           </div>
+          {estimates.some((e) => e.high) && (
+            <div className="flex items-center gap-1">
+              <span className="text-red-600 font-bold">#</span> High resistance
+            </div>
+          )}
         </div>
       </div>
 
@@ -133,12 +149,14 @@ export function CellsPanel({ hardware, cells }: Props) {
               <th className="text-left px-4 py-2 text-xs font-medium text-[var(--color-text-muted)] uppercase">Cell</th>
               <th className="text-right px-4 py-2 text-xs font-medium text-[var(--color-text-muted)] uppercase">Voltage</th>
               <th className="text-right px-4 py-2 text-xs font-medium text-[var(--color-text-muted)] uppercase">Diff from Avg</th>
+              <th className="text-right px-4 py-2 text-xs font-medium text-[var(--color-text-muted)] uppercase">Resistance</th>
               <th className="text-center px-4 py-2 text-xs font-medium text-[var(--color-text-muted)] uppercase">Balance</th>
             </tr>
           </thead>
           <tbody>
             {voltages.map((v, i) => {
               const diff = v - avgV;
+              const ir = estimates[i]?.resistance ?? null;
               const diffColor = Math.abs(diff) > 0.02 ? (diff > 0 ? 'text-amber-600' : 'text-blue-600') : 'text-[var(--color-text-muted)]';
               return (
                 <tr key={i} className="border-t border-[var(--color-border)] hover:bg-[var(--color-surface-light)]/50">
@@ -147,6 +165,9 @@ export function CellsPanel({ hardware, cells }: Props) {
                   <td className={`px-4 py-2 text-right font-mono ${diffColor}`}>
                     {diff >= 0 ? '+' : ''}{(diff * 1000).toFixed(1)} mV
                   </td>
+                  <td className={`px-4 py-2 text-right font-mono ${isHighIR(i) ? 'text-red-600 font-bold' : ''}`}>
+                    {ir !== null ? `${ir.toFixed(2)} mΩ` : '—'}
+                  </td>
                   <td className="px-4 py-2 text-center">
                     {getBalanceBit(i) ? (
                       <span className="inline-block w-2 h-2 bg-yellow-400 rounded-full animate-pulse" />
@@ -160,6 +181,26 @@ export function CellsPanel({ hardware, cells }: Props) {
           </tbody>
         </table>
       </div>
+
+      {/* Internal resistance */}
+      {deviceId && (
+        <CellResistance
+          deviceId={deviceId}
+          record={resistance}
+          estimates={estimates}
+          fullCapacity={hardware.fullCapacity}
+        />
+      )}
+
+      {/* History */}
+      <CellHistory
+        deviceId={deviceId}
+        sessionId={sessionId}
+        hardware={hardware}
+        cells={cells}
+        lastUpdate={lastUpdate}
+        config={config}
+      />
     </div>
   );
 }
@@ -0,0 +1,205 @@
+import { useRef, useState } from 'react';
+import type { BMSConfig } from '../lib/jbd-protocol';
+import {
+  CONFIG_REGISTERS,
+  encodeRegister,
+  formatField,
+  type RegisterWrite,
+} from '../lib/jbd-registers';
+import {
+  createBackup,
+  backupFileName,
+  parseBackup,
+  checkRestore,
+  restoreChanges,
+  IDENTITY_KEYS,
+  type ConfigBackup as Backup,
+} from '../lib/config-backup';
+
+interface Props {
+  config: BMSConfig;
+  hardwareVersion: string | null;
+  isConnected: boolean;
+  busy: boolean;
+  /** Resolves to whether the batch was applied */
+  onApply: (changes: RegisterWrite[]) => Promise<boolean>;
+}
+
+function downloadJSON(fileName: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const hex4 = (v: number) => `0x${v.toString(16).padStart(4, '0')}`;
+
+export function ConfigBackup({ config, hardwareVersion, isConnected, busy, onApply }: Props) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [override, setOverride] = useState(false);
+
+  const handleExport = () => {
+    const doc = createBackup(config, hardwareVersion);
+    downloadJSON(backupFileName(doc), doc);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoadError(null);
+    setOverride(false);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err) {
+      setBackup(null);
+      setLoadError(err instanceof Error ? err.message : 'Could not read backup');
+    }
+  };
+
+  const issues = backup ? checkRestore(backup, config) : [];
+  const blocked = issues.some((i) => i.severity === 'error') && !override;
+  const changes = backup ? restoreChanges(backup, config) : [];
+  const changedFields = backup
+    ? CONFIG_REGISTERS.filter(
+        (def) => !IDENTITY_KEYS.includes(def.key) && backup.config[def.key] !== config[def.key]
+      )
+    : [];
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (await onApply(changes)) setBackup(null);
+  };
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Backup
+        </h3>
+        <div className="flex-1" />
+        <button
+          onClick={handleExport}
+          className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+          className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+        >
+          Restore from file…
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {loadError && <p className="text-xs text-red-600">{loadError}</p>}
+
+      {backup && (
+        <div className="space-y-3 border-t border-[var(--color-border)] pt-3">
+          <div className="text-sm">
+            <span className="font-medium">{backup.identity.deviceName || 'Unnamed pack'}</span>
+            <span className="text-[var(--color-text-muted)]">
+              {' '}
+              · {backup.identity.barCode || 'no barcode'} · serial {backup.identity.serialNumber}
+              {backup.identity.hardwareVersion && ` · ${backup.identity.hardwareVersion}`}
+              {backup.createdAt && ` · saved ${new Date(backup.createdAt).toLocaleString()}`}
+            </span>
+          </div>
+
+          {issues.map((issue) => (
+            <p
+              key={issue.message}
+              className={`text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+            >
+              {issue.severity === 'error' ? '✕' : '!'} {issue.message}
+            </p>
+          ))}
+
+          {changedFields.length === 0 ? (
+            <p className="text-sm text-[var(--color-text-muted)]">
+              The connected pack already matches this backup.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-[var(--color-text-muted)]">
+                  <th className="text-left py-1">Parameter</th>
+                  <th className="text-right py-1">Connected pack</th>
+                  <th className="text-right py-1">Backup</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changedFields.map((def) => (
+                  <tr key={def.key} className="border-t border-[var(--color-border)]">
+                    <td className="py-1">
+                      {def.name}
+                      <span className="ml-2 text-xs text-[var(--color-text-muted)]">{def.group}</span>
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {formatField(def, config[def.key])}
+                      {def.encoding !== 'string' && (
+                        <span className="ml-2 text-xs text-[var(--color-text-muted)]">
+                          {hex4(encodeRegister(def.address, config))}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right font-mono text-amber-600">
+                      {formatField(def, backup.config[def.key])}
+                      {def.encoding !== 'string' && (
+                        <span className="ml-2 text-xs text-[var(--color-text-muted)]">
+                          {hex4(encodeRegister(def.address, backup.config))}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            {issues.some((i) => i.severity === 'error') && (
+              <label className="flex items-center gap-2 text-xs text-red-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={override}
+                  onChange={(e) => setOverride(e.target.checked)}
+                  className="accent-red-600"
+                />
+                Restore anyway
+              </label>
+            )}
+            <div className="flex-1" />
+            <button
+              onClick={() => setBackup(null)}
+              className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={!isConnected || busy || blocked || changes.length === 0}
+              className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+            >
+              Restore {changes.length} register{changes.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+interface BitFlag {
+  bit: number;
+  key: string;
+  label: string;
+  description: string;
+}
+
+interface Props {
+  title: string;
+  flags: readonly BitFlag[];
+  /** Staged bitmask */
+  value: number;
+  /** Bitmask currently on the device */
+  original: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+/** Toggle editor for a bitmask register; edits are staged like any other field */
+export function ConfigBitfield({ title, flags, value, original, disabled, onChange }: Props) {
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4">
+      <h3 className="text-sm font-medium text-[var(--color-text-muted)] mb-3 uppercase tracking-wider">
+        {title}
+      </h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+        {flags.map((f) => {
+          const mask = 1 << f.bit;
+          const active = (value & mask) !== 0;
+          const changed = active !== ((original & mask) !== 0);
+          return (
+            <label
+              key={f.key}
+              className={`flex items-start gap-2 px-3 py-2 rounded-lg border cursor-pointer ${
+                changed
+                  ? 'bg-amber-50 border-amber-200'
+                  : active
+                    ? 'bg-emerald-50 border-emerald-200'
+                    : 'bg-[var(--color-surface-light)] border-[var(--color-border)]'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={active}
+                disabled={disabled}
+                onChange={() => onChange(value ^ mask)}
+                className="mt-0.5 cursor-pointer"
+              />
+              <span className="flex flex-col">
+                <span
+                  className={`text-sm ${
+                    changed ? 'text-amber-700' : active ? 'text-emerald-700' : 'text-[var(--color-text-muted)]'
+                  }`}
+                >
+                  {f.label}
+                </span>
+                <span className="text-xs text-[var(--color-text-muted)]">{f.description}</span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
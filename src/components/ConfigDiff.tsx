@@ -0,0 +1,368 @@
+import { useRef, useState } from 'react';
+import type { BMSConfig } from '../lib/jbd-protocol';
+import { diffConfig, formatField, type RegisterWrite } from '../lib/jbd-registers';
+import { IDENTITY_KEYS, parseBackup } from '../lib/config-backup';
+import {
+  compareConfigs,
+  copyFields,
+  loadSnapshots,
+  saveSnapshot,
+  deleteSnapshot,
+  type ConfigSnapshot,
+  type FieldDiff,
+} from '../lib/config-diff';
+import { readConfigOnce, WebSerialTransport } from '../lib/serial';
+import { EmulatorTransport } from '../lib/emulator';
+import {
+  BUILT_IN_PROFILES,
+  loadCustomProfiles,
+  expandProfile,
+  packFromConfig,
+} from '../lib/profiles';
+
+interface Props {
+  config: BMSConfig | null;
+  isConnected: boolean;
+  busy: boolean;
+  /** Resolves to whether the batch was applied */
+  onApply: (changes: RegisterWrite[]) => Promise<boolean>;
+}
+
+type SourceKind = 'live' | 'snapshot' | 'backup' | 'pack' | 'profile';
+
+interface ConfigSource {
+  id: string;
+  label: string;
+  kind: SourceKind;
+  config: BMSConfig;
+}
+
+const LIVE_ID = 'live';
+
+function formatRaw(raw: number | string): string {
+  return typeof raw === 'string' ? JSON.stringify(raw) : `0x${raw.toString(16).padStart(4, '0')}`;
+}
+
+function SourceSelect({
+  label,
+  value,
+  sources,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  sources: ConfigSource[];
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="font-medium">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm"
+      >
+        <option value="">Select…</option>
+        {sources.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function ConfigDiff({ config, isConnected, busy, onApply }: Props) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [snapshots, setSnapshots] = useState<ConfigSnapshot[]>(loadSnapshots);
+  const [loaded, setLoaded] = useState<ConfigSource[]>([]);
+  const [aId, setAId] = useState(LIVE_ID);
+  const [bId, setBId] = useState('');
+  const [selected, setSelected] = useState<Set<keyof BMSConfig>>(new Set());
+  const [snapshotName, setSnapshotName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const sources: ConfigSource[] = [
+    ...(config ? [{ id: LIVE_ID, label: 'Connected pack (live)', kind: 'live' as const, config }] : []),
+    ...snapshots.map((s) => ({
+      id: `snapshot:${s.name}`,
+      label: `Snapshot: ${s.name}`,
+      kind: 'snapshot' as const,
+      config: s.config,
+    })),
+    ...loaded,
+    // Profiles are expanded for the connected pack's size and ratings
+    ...(config
+      ? [...BUILT_IN_PROFILES, ...loadCustomProfiles()].map((p) => ({
+          id: `profile:${p.id}`,
+          label: `Profile: ${p.name}`,
+          kind: 'profile' as const,
+          config: expandProfile(p, packFromConfig(config), config),
+        }))
+      : []),
+  ];
+  const a = sources.find((s) => s.id === aId);
+  const b = sources.find((s) => s.id === bId);
+  const diffs = a && b ? compareConfigs(a.config, b.config) : [];
+
+  const groups = diffs.reduce<Record<string, FieldDiff[]>>((acc, d) => {
+    (acc[d.def.group] ??= []).push(d);
+    return acc;
+  }, {});
+
+  const addLoaded = (source: ConfigSource) => {
+    setLoaded((prev) => [...prev.filter((s) => s.id !== source.id), source]);
+    setBId(source.id);
+  };
+
+  /** Apply a snapshot list change, reporting storage failures */
+  const updateSnapshots = (update: () => ConfigSnapshot[]): boolean => {
+    try {
+      setSnapshots(update());
+      return true;
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not save snapshots');
+      return false;
+    }
+  };
+
+  const handleSaveSnapshot = () => {
+    if (!config || !snapshotName.trim()) return;
+    if (updateSnapshots(() => saveSnapshot(snapshotName.trim(), config))) setSnapshotName('');
+  };
+
+  const handleBackupFile = async (file: File | undefined) => {
+    if (!file) return;
+    setStatus(null);
+    try {
+      const backup = parseBackup(await file.text());
+      addLoaded({ id: `backup:${file.name}`, label: `Backup: ${file.name}`, kind: 'backup', config: backup.config });
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not read backup');
+    }
+  };
+
+  const handleReadOther = async (kind: 'serial' | 'emulator') => {
+    setStatus('Reading configuration from the other pack…');
+    try {
+      const transport =
+        kind === 'serial'
+          ? new WebSerialTransport(await navigator.serial.requestPort())
+          : new EmulatorTransport();
+      const other = await readConfigOnce(transport);
+      const name = other.barCode || other.deviceName || transport.label;
+      addLoaded({ id: `pack:${name}`, label: `Pack: ${name}`, kind: 'pack', config: other });
+      setStatus(null);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Could not read the other pack');
+    }
+  };
+
+  const toggle = (key: keyof BMSConfig) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selectedInDiff = diffs.filter((d) => selected.has(d.def.key)).map((d) => d.def.key);
+
+  const canCopyInto = (target?: ConfigSource) =>
+    !!target && (target.kind === 'snapshot' || (target.kind === 'live' && isConnected && !busy));
+
+  const handleCopy = async (from: ConfigSource, to: ConfigSource) => {
+    const next = copyFields(from.config, to.config, selectedInDiff);
+    if (to.kind === 'live') {
+      await onApply(diffConfig(to.config, next));
+    } else if (to.kind === 'snapshot') {
+      if (!updateSnapshots(() => saveSnapshot(to.id.slice('snapshot:'.length), next))) return;
+    }
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <SourceSelect label="A" value={aId} sources={sources} onChange={setAId} />
+          <button
+            onClick={() => {
+              setAId(bId);
+              setBId(aId);
+            }}
+            className="text-sm text-[var(--color-primary)] cursor-pointer"
+            title="Swap"
+          >
+            ⇄
+          </button>
+          <SourceSelect label="B" value={bId} sources={sources} onChange={setBId} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 border-t border-[var(--color-border)] pt-3">
+          <input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="Snapshot name"
+            className="w-40 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm"
+          />
+          <button
+            onClick={handleSaveSnapshot}
+            disabled={!config || !snapshotName.trim()}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+          >
+            Save live as snapshot
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Load backup…
+          </button>
+          {WebSerialTransport.isSupported() && (
+            <button
+              onClick={() => handleReadOther('serial')}
+              className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+            >
+              Read another pack…
+            </button>
+          )}
+          <button
+            onClick={() => handleReadOther('emulator')}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Read emulator
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleBackupFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {snapshots.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {snapshots.map((s) => (
+              <span
+                key={s.name}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs bg-[var(--color-surface-light)] rounded"
+              >
+                {s.name}
+                <button
+                  onClick={() => updateSnapshots(() => deleteSnapshot(s.name))}
+                  className="text-[var(--color-text-muted)] hover:text-red-600 cursor-pointer"
+                  title="Delete snapshot"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {status && <p className="text-xs text-[var(--color-text-muted)]">{status}</p>}
+      </div>
+
+      {a && b && (
+        <>
+          {diffs.length === 0 ? (
+            <div className="flex items-center justify-center h-24 text-[var(--color-text-muted)]">
+              {a.label} and {b.label} are identical
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-sm text-[var(--color-text-muted)]">
+                  {diffs.length} field{diffs.length === 1 ? '' : 's'} differ · {selectedInDiff.length} selected
+                </span>
+                <div className="flex-1" />
+                <button
+                  onClick={() => handleCopy(a, b)}
+                  disabled={selectedInDiff.length === 0 || !canCopyInto(b)}
+                  className="px-3 py-1.5 text-xs bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] disabled:opacity-50 text-white rounded-lg cursor-pointer"
+                >
+                  Copy selected A → B
+                </button>
+                <button
+                  onClick={() => handleCopy(b, a)}
+                  disabled={selectedInDiff.length === 0 || !canCopyInto(a)}
+                  className="px-3 py-1.5 text-xs bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] disabled:opacity-50 text-white rounded-lg cursor-pointer"
+                >
+                  Copy selected B → A
+                </button>
+              </div>
+
+              {Object.entries(groups).map(([group, fields]) => (
+                <div
+                  key={group}
+                  className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl overflow-hidden"
+                >
+                  <div className="px-4 py-3 bg-[var(--color-surface-light)] border-b border-[var(--color-border)]">
+                    <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+                      {group}
+                    </h3>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-[var(--color-surface-light)]/50">
+                        <th className="w-8 px-4 py-2" />
+                        <th className="text-left px-4 py-2 text-xs font-medium text-[var(--color-text-muted)]">
+                          Parameter
+                        </th>
+                        <th className="text-right px-4 py-2 text-xs font-medium text-[var(--color-text-muted)]">
+                          A
+                        </th>
+                        <th className="text-right px-4 py-2 text-xs font-medium text-[var(--color-text-muted)]">
+                          B
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map((d) => (
+                        <tr
+                          key={d.def.key}
+                          className="border-t border-[var(--color-border)] hover:bg-[var(--color-surface-light)]/50"
+                        >
+                          <td className="px-4 py-2">
+                            <input
+                              type="checkbox"
+                              checked={selected.has(d.def.key)}
+                              onChange={() => toggle(d.def.key)}
+                              disabled={!d.def.writable || IDENTITY_KEYS.includes(d.def.key)}
+                              className="accent-[var(--color-primary)]"
+                            />
+                          </td>
+                          <td className="px-4 py-2 font-medium">
+                            {d.def.name}
+                            <span className="ml-2 text-xs font-mono text-[var(--color-text-muted)]">
+                              0x{d.def.address.toString(16).padStart(2, '0')}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-right font-mono">
+                            {formatField(d.def, d.a)}
+                            <span className="ml-2 text-xs text-[var(--color-text-muted)]">{formatRaw(d.rawA)}</span>
+                          </td>
+                          <td className="px-4 py-2 text-right font-mono">
+                            {formatField(d.def, d.b)}
+                            <span className="ml-2 text-xs text-[var(--color-text-muted)]">{formatRaw(d.rawB)}</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
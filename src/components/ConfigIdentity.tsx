@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import type { BMSConfig } from '../lib/jbd-protocol';
+import { diffConfig, registerForKey, type RegisterWrite } from '../lib/jbd-registers';
+import {
+  IDENTITY_STRING_KEYS,
+  checkIdentityString,
+  dateFromInput,
+  dateToInput,
+  loadSerialCounter,
+  saveSerialCounter,
+  proposedSerial,
+  type SerialCounter,
+} from '../lib/identity';
+
+interface Props {
+  config: BMSConfig;
+  isConnected: boolean;
+  busy: boolean;
+  /** Resolves to whether the batch was applied */
+  /** `onApplied` runs once the changes are written, before the config is re-read */
+  onApply: (changes: RegisterWrite[], onApplied: () => void) => Promise<boolean>;
+}
+
+const inputClass =
+  'w-full px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm font-mono';
+
+/**
+ * Editor for the per-pack identity registers. Mount with a key derived from
+ * the identity so a freshly read pack starts from its own values.
+ */
+export function ConfigIdentity({ config, isConnected, busy, onApply }: Props) {
+  const [counter, setCounter] = useState(loadSerialCounter);
+  const [strings, setStrings] = useState(() => ({
+    manufacturerName: config.manufacturerName,
+    deviceName: config.deviceName,
+    barCode: config.barCode,
+  }));
+  const [serial, setSerial] = useState(() => String(proposedSerial(counter, config.serialNumber)));
+  const [date, setDate] = useState(() => dateToInput(config.manufactureDate));
+  const [counterError, setCounterError] = useState<string | null>(null);
+
+  const stringErrors = IDENTITY_STRING_KEYS.map((key) => checkIdentityString(key, strings[key]));
+  const serialNumber = Number(serial);
+  const serialValid = serial.trim() !== '' && Number.isInteger(serialNumber) && serialNumber >= 0 && serialNumber <= 0xffff;
+  const packedDate = dateFromInput(date);
+  const valid = stringErrors.every((e) => e === null) && serialValid && packedDate !== null;
+
+  const changes = valid
+    ? diffConfig(config, { ...config, ...strings, serialNumber, manufactureDate: packedDate })
+    : [];
+
+  /** Persist the counter; false (with the reason shown) when storage failed */
+  const storeCounter = (next: SerialCounter): boolean => {
+    try {
+      setCounter(saveSerialCounter(next));
+      setCounterError(null);
+      return true;
+    } catch (err) {
+      setCounterError(err instanceof Error ? err.message : 'Could not save the serial counter');
+      return false;
+    }
+  };
+
+  const handleWrite = async () => {
+    // A serial that cannot be recorded would be handed out again, so check storage first
+    if (counter.enabled && !storeCounter(counter)) return;
+    // Advance only once the write has gone through, including after a validation override
+    await onApply(changes, () => {
+      if (counter.enabled) storeCounter({ ...counter, lastWritten: serialNumber });
+    });
+  };
+
+  const toggleCounter = (enabled: boolean) => {
+    const next = { ...counter, enabled };
+    if (!storeCounter(next)) return;
+    setSerial(String(proposedSerial(next, config.serialNumber)));
+  };
+
+  const today = () => {
+    const now = new Date();
+    setDate(
+      `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+    );
+  };
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Device Identity
+        </h3>
+        <div className="flex-1" />
+        <button
+          onClick={handleWrite}
+          disabled={!isConnected || busy || changes.length === 0}
+          className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+        >
+          Write identity{changes.length > 0 ? ` (${changes.length})` : ''}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {IDENTITY_STRING_KEYS.map((key, i) => {
+          const def = registerForKey(key);
+          return (
+            <label key={key} className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+              <span className="flex justify-between">
+                {def.name}
+                <span className={stringErrors[i] ? 'text-red-600' : ''}>
+                  {strings[key].length}/{def.maxLength}
+                </span>
+              </span>
+              <input
+                value={strings[key]}
+                onChange={(e) => setStrings({ ...strings, [key]: e.target.value })}
+                className={`${inputClass} ${strings[key] !== config[key] ? 'text-amber-600' : ''}`}
+              />
+              {stringErrors[i] && <span className="text-red-600">{stringErrors[i]}</span>}
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+          Serial Number
+          <input
+            type="number"
+            value={serial}
+            onChange={(e) => setSerial(e.target.value)}
+            className={`${inputClass} ${serialValid && serialNumber !== config.serialNumber ? 'text-amber-600' : ''}`}
+          />
+          {!serialValid && <span className="text-red-600">Serial must be a whole number from 0 to 65535</span>}
+        </label>
+        <div className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+          <label className="flex items-center gap-2 mt-5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={counter.enabled}
+              onChange={(e) => toggleCounter(e.target.checked)}
+              className="cursor-pointer"
+            />
+            Auto-increment for the next pack
+          </label>
+          {counter.enabled && counter.lastWritten !== null && <span>Last written: {counter.lastWritten}</span>}
+          {counterError && <span className="text-red-600">{counterError}</span>}
+        </div>
+        <div className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+          <span className="flex justify-between">
+            Manufacture Date
+            <button onClick={today} type="button" className="hover:underline cursor-pointer">
+              Today
+            </button>
+          </span>
+          <input
+            type="date"
+            min="2000-01-01"
+            max="2127-12-31"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={`${inputClass} ${packedDate !== null && packedDate !== config.manufactureDate ? 'text-amber-600' : ''}`}
+          />
+          {packedDate === null && <span className="text-red-600">Pick a real date between 2000 and 2127</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,104 +1,93 @@
 import { useState } from 'react';
-import { JBD_REG, FUNCTION_FLAGS } from '../lib/jbd-protocol';
+import { FUNCTION_FLAGS, NTC_FLAGS } from '../lib/jbd-protocol';
 import type { BMSConfig } from '../lib/jbd-protocol';
+import {
+  CONFIG_REGISTERS,
+  applyWrites,
+  registerForKey,
+  diffConfig,
+  type ConfigValue,
+  type RegisterDef,
+  type RegisterWrite,
+} from '../lib/jbd-registers';
+import type { ConfigWriteProgress } from '../lib/serial';
+import { validateConfig, issuesByKey, type ValidationIssue } from '../lib/config-validation';
+import { curveFromConfig } from '../lib/soc-curve';
+import { ConfigBackup } from './ConfigBackup';
+import { ConfigBitfield } from './ConfigBitfield';
+import { ConfigIdentity } from './ConfigIdentity';
+import { ConfigDiff } from './ConfigDiff';
+import { ConfigProfiles } from './ConfigProfiles';
+import { SocCurveEditor } from './SocCurveEditor';
 
 interface Props {
   config: BMSConfig | null;
+  /** HWVER string, recorded in backups */
+  version: string | null;
   isConnected: boolean;
   onReadConfig: () => Promise<void>;
-  onWriteRegister: (register: number, value: number) => Promise<void>;
-  onWriteTempRegister: (register: number, celsius: number) => Promise<void>;
+  onWriteConfig: (
+    changes: RegisterWrite[],
+    onProgress?: (progress: ConfigWriteProgress) => void
+  ) => Promise<void>;
 }
 
-interface ConfigField {
-  label: string;
-  register: number;
-  key: keyof BMSConfig;
-  unit: string;
-  type: 'voltage_mv' | 'current' | 'capacity' | 'temp' | 'raw' | 'string' | 'percent' | 'milliohm' | 'time';
-  group: string;
-  readOnly?: boolean;
-}
-
-const CONFIG_FIELDS: ConfigField[] = [
-  // Capacity
-  { label: 'Design Capacity', register: JBD_REG.DesignCapacity, key: 'designCapacity', unit: 'Ah ×100', type: 'capacity', group: 'Capacity' },
-  { label: 'Cycle Capacity', register: JBD_REG.CycleCapacity, key: 'cycleCapacity', unit: 'Ah ×100', type: 'capacity', group: 'Capacity' },
-  { label: 'Full Charge Voltage', register: JBD_REG.FullChargeVol, key: 'fullChargeVol', unit: 'mV', type: 'voltage_mv', group: 'Capacity' },
-  { label: 'Charge End Voltage', register: JBD_REG.ChargeEndVol, key: 'chargeEndVol', unit: 'mV', type: 'voltage_mv', group: 'Capacity' },
-  { label: 'Discharging Rate', register: JBD_REG.DischargingRate, key: 'dischargingRate', unit: '%', type: 'percent', group: 'Capacity' },
-
-  // Cell voltage protection
-  { label: 'Cell Overvoltage', register: JBD_REG.CellOverVoltage, key: 'cellOverVoltage', unit: 'mV', type: 'voltage_mv', group: 'Cell Voltage' },
-  { label: 'Cell OV Release', register: JBD_REG.CellOVRelease, key: 'cellOVRelease', unit: 'mV', type: 'voltage_mv', group: 'Cell Voltage' },
-  { label: 'Cell Undervoltage', register: JBD_REG.CellUnderVoltage, key: 'cellUnderVoltage', unit: 'mV', type: 'voltage_mv', group: 'Cell Voltage' },
-  { label: 'Cell UV Release', register: JBD_REG.CellUVRelease, key: 'cellUVRelease', unit: 'mV', type: 'voltage_mv', group: 'Cell Voltage' },
-  { label: 'Hard Cell OV', register: JBD_REG.HardCellOverVoltage, key: 'hardCellOverVoltage', unit: 'mV', type: 'voltage_mv', group: 'Cell Voltage' },
-  { label: 'Hard Cell UV', register: JBD_REG.HardCellUnderVoltage, key: 'hardCellUnderVoltage', unit: 'mV', type: 'voltage_mv', group: 'Cell Voltage' },
-
-  // Pack voltage protection
-  { label: 'Pack Overvoltage', register: JBD_REG.PackOverVoltage, key: 'packOverVoltage', unit: 'mV', type: 'voltage_mv', group: 'Pack Voltage' },
-  { label: 'Pack OV Release', register: JBD_REG.PackOVRelease, key: 'packOVRelease', unit: 'mV', type: 'voltage_mv', group: 'Pack Voltage' },
-  { label: 'Pack Undervoltage', register: JBD_REG.PackUnderVoltage, key: 'packUnderVoltage', unit: 'mV', type: 'voltage_mv', group: 'Pack Voltage' },
-  { label: 'Pack UV Release', register: JBD_REG.PackUVRelease, key: 'packUVRelease', unit: 'mV', type: 'voltage_mv', group: 'Pack Voltage' },
+const MODE_LABELS = {
+  edit: 'Edit',
+  compare: 'Compare',
+  profiles: 'Profiles',
+  curve: 'SOC Curve',
+} as const;
 
-  // Current protection
-  { label: 'Charge Overcurrent', register: JBD_REG.OverChargeCurrent, key: 'overChargeCurrent', unit: 'A ×100', type: 'current', group: 'Current' },
-  { label: 'Discharge Overcurrent', register: JBD_REG.OverDisCurrent, key: 'overDisCurrent', unit: 'A ×100', type: 'current', group: 'Current' },
+/** Registers edited bit by bit below the form, not as raw words */
+const BITFIELD_KEYS: (keyof BMSConfig)[] = ['batteryConfig', 'ntcConfig'];
 
-  // Temperature
-  { label: 'Charge Over Temp', register: JBD_REG.ChgOverTemp, key: 'chgOverTemp', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Charge OT Release', register: JBD_REG.ChgOTRelease, key: 'chgOTRelease', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Charge Low Temp', register: JBD_REG.ChgLowTemp, key: 'chgLowTemp', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Charge UT Release', register: JBD_REG.ChgUTRelease, key: 'chgUTRelease', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Discharge Over Temp', register: JBD_REG.DisOverTemp, key: 'disOverTemp', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Discharge OT Release', register: JBD_REG.DsgOTRelease, key: 'dsgOTRelease', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Discharge Low Temp', register: JBD_REG.DisLowTemp, key: 'disLowTemp', unit: '°C', type: 'temp', group: 'Temperature' },
-  { label: 'Discharge UT Release', register: JBD_REG.DsgUTRelease, key: 'dsgUTRelease', unit: '°C', type: 'temp', group: 'Temperature' },
+const PHASE_LABELS: Record<ConfigWriteProgress['phase'], string> = {
+  capture: 'Capturing current values',
+  write: 'Writing',
+  verify: 'Verifying',
+  rollback: 'Rolling back',
+  done: 'Done',
+};
 
-  // Balance
-  { label: 'Balance Start Voltage', register: JBD_REG.BalanceStartVoltage, key: 'balanceStartVoltage', unit: 'mV', type: 'voltage_mv', group: 'Balance' },
-  { label: 'Balance Window', register: JBD_REG.BalanceWindow, key: 'balanceWindow', unit: 'mV', type: 'voltage_mv', group: 'Balance' },
-
-  // System
-  { label: 'Sense Resistor', register: JBD_REG.SenseResistor, key: 'senseResistor', unit: 'mΩ', type: 'milliohm', group: 'System' },
-  { label: 'Cell Count', register: JBD_REG.PackNum, key: 'packNum', unit: '', type: 'raw', group: 'System' },
-  { label: 'FET Control Time', register: JBD_REG.FetCtrlTime, key: 'fetCtrlTime', unit: 's', type: 'time', group: 'System' },
-  { label: 'LED Display Time', register: JBD_REG.LedDispTime, key: 'ledDispTime', unit: 's', type: 'time', group: 'System' },
-  { label: 'Serial Number', register: JBD_REG.SerialNumber, key: 'serialNumber', unit: '', type: 'raw', group: 'System', readOnly: true },
-  { label: 'Cycle Count', register: JBD_REG.CycleCount, key: 'cycleCount', unit: '', type: 'raw', group: 'System', readOnly: true },
-
-  // Info strings
-  { label: 'Manufacturer', register: JBD_REG.ManufacturerName, key: 'manufacturerName', unit: '', type: 'string', group: 'Info', readOnly: true },
-  { label: 'Device Name', register: JBD_REG.DeviceName, key: 'deviceName', unit: '', type: 'string', group: 'Info', readOnly: true },
-  { label: 'Barcode', register: JBD_REG.BarCode, key: 'barCode', unit: '', type: 'string', group: 'Info', readOnly: true },
-];
+function formatValue(value: ConfigValue): string {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return String(value);
+}
 
 function ConfigFieldRow({
   field,
   value,
-  onWrite,
+  original,
+  options,
+  issues,
+  disabled,
+  onStage,
 }: {
-  field: ConfigField;
-  value: string | number;
-  onWrite: (register: number, value: number, isTemp: boolean) => void;
+  field: RegisterDef;
+  value: ConfigValue;
+  /** Value on the device, when `value` is a staged change */
+  original?: ConfigValue;
+  options?: readonly number[];
+  issues?: ValidationIssue[];
+  disabled: boolean;
+  onStage: (field: RegisterDef, value: number | boolean) => void;
 }) {
   const [editing, setEditing] = useState(false);
   const [editValue, setEditValue] = useState(String(value));
-  const [saving, setSaving] = useState(false);
 
-  const handleSave = async () => {
-    setSaving(true);
-    try {
+  const handleSave = () => {
+    if (typeof value === 'boolean') {
+      onStage(field, editValue === 'true');
+    } else {
       const numVal = Number(editValue);
-      if (isNaN(numVal)) throw new Error('Invalid number');
-      onWrite(field.register, numVal, field.type === 'temp');
-      setEditing(false);
-    } catch {
-      // keep editing
-    } finally {
-      setSaving(false);
+      // Out-of-range input keeps the editor open
+      if (isNaN(numVal)) return;
+      if (field.min !== undefined && numVal < field.min) return;
+      if (field.max !== undefined && numVal > field.max) return;
+      onStage(field, numVal);
     }
+    setEditing(false);
   };
 
   const handleCancel = () => {
@@ -108,27 +97,51 @@ function ConfigFieldRow({
 
   return (
     <tr className="border-t border-[var(--color-border)] hover:bg-[var(--color-surface-light)]/50">
-      <td className="px-4 py-2 text-sm font-medium">{field.label}</td>
+      <td className="px-4 py-2 text-sm font-medium">{field.name}</td>
       <td className="px-4 py-2 text-right">
         {editing ? (
           <div className="flex items-center justify-end gap-2">
-            <input
-              type={field.type === 'string' ? 'text' : 'number'}
-              value={editValue}
-              onChange={(e) => setEditValue(e.target.value)}
-              className="w-28 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-primary)] rounded text-right text-sm font-mono text-[var(--color-text)] focus:outline-none"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') handleSave();
-                if (e.key === 'Escape') handleCancel();
-              }}
-              autoFocus
-            />
+            {typeof value === 'boolean' || options ? (
+              <select
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                className="w-28 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-primary)] rounded text-right text-sm font-mono text-[var(--color-text)] focus:outline-none"
+                autoFocus
+              >
+                {typeof value === 'boolean' ? (
+                  <>
+                    <option value="false">Off</option>
+                    <option value="true">On</option>
+                  </>
+                ) : (
+                  options?.map((opt) => (
+                    <option key={opt} value={String(opt)}>
+                      {opt}
+                    </option>
+                  ))
+                )}
+              </select>
+            ) : (
+              <input
+                type={field.encoding === 'string' ? 'text' : 'number'}
+                min={field.min}
+                max={field.max}
+                step={field.scale}
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                className="w-28 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-primary)] rounded text-right text-sm font-mono text-[var(--color-text)] focus:outline-none"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSave();
+                  if (e.key === 'Escape') handleCancel();
+                }}
+                autoFocus
+              />
+            )}
             <button
               onClick={handleSave}
-              disabled={saving}
               className="px-2 py-1 text-xs bg-emerald-600 hover:bg-emerald-700 text-white rounded cursor-pointer"
             >
-              Save
+              Stage
             </button>
             <button
               onClick={handleCancel}
@@ -138,12 +151,27 @@ function ConfigFieldRow({
             </button>
           </div>
         ) : (
-          <span className="font-mono text-sm">{value}</span>
+          <span className={`font-mono text-sm ${original !== undefined ? 'text-amber-600 font-semibold' : ''}`}>
+            {original !== undefined && (
+              <span className="mr-2 font-normal line-through text-[var(--color-text-muted)]">
+                {formatValue(original)}
+              </span>
+            )}
+            {formatValue(value)}
+          </span>
         )}
+        {issues?.map((issue) => (
+          <p
+            key={issue.rule}
+            className={`text-xs mt-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+          >
+            {issue.message}
+          </p>
+        ))}
       </td>
       <td className="px-4 py-2 text-sm text-[var(--color-text-muted)]">{field.unit}</td>
       <td className="px-4 py-2 text-center">
-        {!field.readOnly && !editing && (
+        {field.writable && !editing && !disabled && (
           <button
             onClick={() => {
               setEditValue(String(value));
@@ -161,12 +189,21 @@ function ConfigFieldRow({
 
 export function ConfigPanel({
   config,
+  version,
   isConnected,
   onReadConfig,
-  onWriteRegister,
-  onWriteTempRegister,
+  onWriteConfig,
 }: Props) {
   const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<Partial<BMSConfig>>({});
+  const [progress, setProgress] = useState<ConfigWriteProgress | null>(null);
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const [blocked, setBlocked] = useState<{
+    batch: RegisterWrite[];
+    issues: ValidationIssue[];
+    onApplied?: () => void;
+  } | null>(null);
+  const [mode, setMode] = useState<keyof typeof MODE_LABELS>('edit');
 
   const handleRead = async () => {
     setLoading(true);
@@ -177,30 +214,68 @@ export function ConfigPanel({
     }
   };
 
-  const handleWrite = async (register: number, value: number, isTemp: boolean) => {
-    if (isTemp) {
-      await onWriteTempRegister(register, value);
-    } else {
-      await onWriteRegister(register, value);
+  const handleStage = (field: RegisterDef, value: number | boolean) => {
+    if (!config) return;
+    setPending((prev) => {
+      const { [field.key]: _previous, ...rest } = prev;
+      // Staging the device's own value un-stages the field
+      return config[field.key] === value ? rest : { ...rest, [field.key]: value };
+    });
+  };
+
+  const staged: BMSConfig | null = config ? { ...config, ...pending } : null;
+  const changes = config && staged ? diffConfig(config, staged) : [];
+  const pendingCount = Object.keys(pending).length;
+  const stagedIssues = staged ? issuesByKey(validateConfig(staged)) : new Map();
+
+  /**
+   * Write a batch, then re-read once. Resolves to whether the batch applied.
+   * `onApplied` runs after a successful write, before the re-read. A batch
+   * that would leave validation errors is held back until the user
+   * overrides it; `onApplied` then runs once the override goes through.
+   */
+  const applyChanges = async (
+    batch: RegisterWrite[],
+    override = false,
+    onApplied?: () => void
+  ): Promise<boolean> => {
+    setApplyError(null);
+    setBlocked(null);
+    if (!config) return false;
+    if (!override) {
+      const errors = validateConfig(applyWrites(config, batch)).filter((i) => i.severity === 'error');
+      if (errors.length > 0) {
+        setBlocked({ batch, issues: errors, onApplied });
+        return false;
+      }
     }
-    // Re-read config after write
+    let applied = false;
+    try {
+      await onWriteConfig(batch, setProgress);
+      applied = true;
+    } catch (err) {
+      setApplyError(err instanceof Error ? err.message : 'Config write failed');
+    } finally {
+      setProgress(null);
+    }
+    if (applied) onApplied?.();
     await onReadConfig();
+    return applied;
   };
 
-  // Group fields
-  const groups = CONFIG_FIELDS.reduce<Record<string, ConfigField[]>>((acc, field) => {
-    (acc[field.group] ??= []).push(field);
+  const handleApply = async () => {
+    const clear = () => setPending({});
+    if (await applyChanges(changes, false, clear)) clear();
+  };
+
+  // Group fields; identity and the bitfields have their own editors
+  const groups = CONFIG_REGISTERS.reduce<Record<string, RegisterDef[]>>((acc, field) => {
+    if (field.group !== 'Identity' && !BITFIELD_KEYS.includes(field.key)) {
+      (acc[field.group] ??= []).push(field);
+    }
     return acc;
   }, {});
 
-  // Function config flags
-  const functionFlags = config
-    ? FUNCTION_FLAGS.map((f) => ({
-        ...f,
-        active: (config.batteryConfig & (1 << f.bit)) !== 0,
-      }))
-    : [];
-
   return (
     <div className="space-y-4">
       {/* Read button */}
@@ -217,9 +292,117 @@ export function ConfigPanel({
             This may take a moment...
           </span>
         )}
+        <div className="flex-1" />
+        <div className="flex rounded-lg border border-[var(--color-border)] overflow-hidden text-xs">
+          {(Object.keys(MODE_LABELS) as (keyof typeof MODE_LABELS)[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1.5 cursor-pointer ${
+                mode === m
+                  ? 'bg-[var(--color-primary)] text-white'
+                  : 'bg-[var(--color-surface)] text-[var(--color-text-muted)] hover:bg-[var(--color-surface-light)]'
+              }`}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {!config ? (
+      {/* Staged changes */}
+      {config && (pendingCount > 0 || progress || applyError || blocked) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-amber-700">
+              {pendingCount} staged change{pendingCount === 1 ? '' : 's'} across {changes.length}{' '}
+              register{changes.length === 1 ? '' : 's'}
+            </span>
+            <div className="flex-1" />
+            <button
+              onClick={() => setPending({})}
+              disabled={progress !== null}
+              className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-700 rounded-lg cursor-pointer"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!isConnected || progress !== null || changes.length === 0}
+              className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+            >
+              Apply to EEPROM
+            </button>
+          </div>
+          {progress && (
+            <div className="space-y-1">
+              <div className="h-1.5 bg-amber-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${progress.phase === 'rollback' ? 'bg-red-500' : 'bg-emerald-500'}`}
+                  style={{ width: `${(progress.index / progress.total) * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-amber-700 font-mono">
+                {PHASE_LABELS[progress.phase]} 0x{progress.register.toString(16).padStart(2, '0')} (
+                {Math.min(progress.index + 1, progress.total)}/{progress.total})
+              </p>
+            </div>
+          )}
+          {applyError && <p className="text-xs text-red-600">{applyError}</p>}
+          {blocked && (
+            <div className="space-y-1 border-t border-amber-200 pt-2">
+              <p className="text-xs font-medium text-red-600">
+                Not written — the result would fail {blocked.issues.length} validation rule
+                {blocked.issues.length === 1 ? '' : 's'}:
+              </p>
+              {blocked.issues.map((issue) => (
+                <p key={issue.rule} className="text-xs text-red-600">
+                  ✕ {issue.message}
+                </p>
+              ))}
+              <div className="flex gap-2 pt-1">
+                <button
+                  onClick={() => setBlocked(null)}
+                  className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => applyChanges(blocked.batch, true, blocked.onApplied)}
+                  disabled={!isConnected || progress !== null}
+                  className="px-3 py-1.5 text-xs bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+                >
+                  Override and write anyway
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode === 'compare' ? (
+        <ConfigDiff
+          config={config}
+          isConnected={isConnected}
+          busy={progress !== null}
+          onApply={(batch) => applyChanges(batch)}
+        />
+      ) : mode === 'profiles' && config ? (
+        <ConfigProfiles
+          config={config}
+          isConnected={isConnected}
+          busy={progress !== null}
+          onApply={(batch) => applyChanges(batch)}
+        />
+      ) : mode === 'curve' && config ? (
+        <SocCurveEditor
+          key={curveFromConfig(config).join(',')}
+          config={config}
+          isConnected={isConnected}
+          busy={progress !== null}
+          onApply={(batch) => applyChanges(batch)}
+        />
+      ) : !config ? (
         <div className="flex items-center justify-center h-48 text-[var(--color-text-muted)]">
           <div className="text-center">
             <p>Click "Read Configuration" to load EEPROM settings</p>
@@ -228,29 +411,45 @@ export function ConfigPanel({
         </div>
       ) : (
         <>
-          {/* Function Config Flags */}
-          <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4">
-            <h3 className="text-sm font-medium text-[var(--color-text-muted)] mb-3 uppercase tracking-wider">
-              Function Configuration (Reg 0x2D)
-            </h3>
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
-              {functionFlags.map((f) => (
-                <div
-                  key={f.key}
-                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border ${
-                    f.active
-                      ? 'bg-emerald-50 border-emerald-200 text-emerald-700'
-                      : 'bg-[var(--color-surface-light)] border-[var(--color-border)] text-[var(--color-text-muted)]'
-                  }`}
-                >
-                  <div
-                    className={`w-2 h-2 rounded-full ${f.active ? 'bg-emerald-500' : 'bg-gray-300'}`}
-                  />
-                  <span className="text-sm">{f.label}</span>
-                </div>
-              ))}
-            </div>
-          </div>
+          <ConfigBackup
+            config={config}
+            hardwareVersion={version}
+            isConnected={isConnected}
+            busy={progress !== null}
+            onApply={(batch) => applyChanges(batch)}
+          />
+
+          <ConfigIdentity
+            key={[
+              config.manufacturerName,
+              config.deviceName,
+              config.barCode,
+              config.serialNumber,
+              config.manufactureDate,
+            ].join('|')}
+            config={config}
+            isConnected={isConnected}
+            busy={progress !== null}
+            onApply={(batch, onApplied) => applyChanges(batch, false, onApplied)}
+          />
+
+          {/* Function and NTC bits */}
+          <ConfigBitfield
+            title="Function Configuration (Reg 0x2D)"
+            flags={FUNCTION_FLAGS}
+            value={staged!.batteryConfig}
+            original={config.batteryConfig}
+            disabled={progress !== null}
+            onChange={(v) => handleStage(registerForKey('batteryConfig'), v)}
+          />
+          <ConfigBitfield
+            title="NTC Sensors (Reg 0x2E)"
+            flags={NTC_FLAGS}
+            value={staged!.ntcConfig}
+            original={config.ntcConfig}
+            disabled={progress !== null}
+            onChange={(v) => handleStage(registerForKey('ntcConfig'), v)}
+          />
 
           {/* Config groups */}
           {Object.entries(groups).map(([group, fields]) => (
@@ -285,8 +484,12 @@ export function ConfigPanel({
                     <ConfigFieldRow
                       key={field.key}
                       field={field}
-                      value={config[field.key]}
-                      onWrite={handleWrite}
+                      value={staged![field.key]}
+                      original={field.key in pending ? config[field.key] : undefined}
+                      options={field.options?.(staged!)}
+                      issues={stagedIssues.get(field.key)}
+                      disabled={progress !== null}
+                      onStage={handleStage}
                     />
                   ))}
                 </tbody>
@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import type { BMSConfig } from '../lib/jbd-protocol';
+import {
+  diffConfig,
+  formatField,
+  registerForKey,
+  type RegisterWrite,
+} from '../lib/jbd-registers';
+import { compareConfigs } from '../lib/config-diff';
+import {
+  BUILT_IN_PROFILES,
+  PROFILE_KEYS,
+  OCV_KEYS,
+  expandProfile,
+  packFromConfig,
+  profileFromConfig,
+  loadCustomProfiles,
+  saveCustomProfile,
+  deleteCustomProfile,
+  type ChemistryProfile,
+  type PackParameters,
+} from '../lib/profiles';
+
+interface Props {
+  config: BMSConfig;
+  isConnected: boolean;
+  busy: boolean;
+  /** Resolves to whether the batch was applied */
+  onApply: (changes: RegisterWrite[]) => Promise<boolean>;
+}
+
+const PACK_INPUTS: { key: keyof PackParameters; label: string; unit: string }[] = [
+  { key: 'packNum', label: 'Cells in series', unit: 'S' },
+  { key: 'capacityAh', label: 'Capacity', unit: 'Ah' },
+  { key: 'chargeCurrentA', label: 'Charge overcurrent', unit: 'A' },
+  { key: 'dischargeCurrentA', label: 'Discharge overcurrent', unit: 'A' },
+];
+
+function NumberInput({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => {
+        const v = Number(e.target.value);
+        if (!isNaN(v)) onChange(v);
+      }}
+      className="w-20 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-right text-sm font-mono"
+    />
+  );
+}
+
+export function ConfigProfiles({ config, isConnected, busy, onApply }: Props) {
+  const [custom, setCustom] = useState<ChemistryProfile[]>(loadCustomProfiles);
+  const [draft, setDraft] = useState<ChemistryProfile>(BUILT_IN_PROFILES[0]);
+  const [pack, setPack] = useState<PackParameters>(() => packFromConfig(config));
+  const [customName, setCustomName] = useState('');
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const profiles = [...BUILT_IN_PROFILES, ...custom];
+  const expanded = expandProfile(draft, pack, config);
+  const diffs = compareConfigs(config, expanded);
+  const changes = diffConfig(config, expanded);
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (profile) setDraft(profile);
+  };
+
+  /** Apply a custom profile list change; false when storage failed */
+  const updateCustom = (update: () => ChemistryProfile[]): boolean => {
+    try {
+      setCustom(update());
+      setStorageError(null);
+      return true;
+    } catch (err) {
+      setStorageError(err instanceof Error ? err.message : 'Could not save custom profiles');
+      return false;
+    }
+  };
+
+  const handleSave = () => {
+    const name = customName.trim();
+    if (!name || !updateCustom(() => saveCustomProfile({ ...draft, name }))) return;
+    setDraft({ ...draft, id: `custom:${name}`, name, builtIn: false });
+    setCustomName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Profile + pack */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Profile</span>
+            <select
+              value={draft.id}
+              onChange={(e) => selectProfile(e.target.value)}
+              className="px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm"
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                  {p.builtIn ? '' : ' (custom)'}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!draft.builtIn && (
+            <button
+              onClick={() => {
+                if (updateCustom(() => deleteCustomProfile(draft.id))) setDraft(BUILT_IN_PROFILES[0]);
+              }}
+              className="text-xs text-red-600 hover:underline cursor-pointer"
+            >
+              Delete
+            </button>
+          )}
+          <div className="flex-1" />
+          <button
+            onClick={() => setDraft(profileFromConfig('Connected pack', config))}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Start from connected pack
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 border-t border-[var(--color-border)] pt-3">
+          {PACK_INPUTS.map(({ key, label, unit }) => (
+            <label key={key} className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+              {label}
+              <span className="flex items-center gap-1">
+                <NumberInput value={pack[key]} onChange={(v) => setPack({ ...pack, [key]: v })} />
+                <span>{unit}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Per-cell parameters */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Cell Parameters
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-2">
+          {PROFILE_KEYS.map((key) => {
+            const def = registerForKey(key);
+            return (
+              <label key={key} className="flex items-center justify-between gap-2 text-sm">
+                <span>{def.name}</span>
+                <span className="flex items-center gap-1">
+                  <NumberInput value={draft[key]} onChange={(v) => setDraft({ ...draft, [key]: v })} />
+                  <span className="w-6 text-xs text-[var(--color-text-muted)]">{def.unit}</span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+        <div className="border-t border-[var(--color-border)] pt-3">
+          <p className="text-xs text-[var(--color-text-muted)] mb-2">Rest voltage by SOC (mV)</p>
+          <div className="flex flex-wrap gap-2">
+            {OCV_KEYS.map((key, i) => (
+              <label key={key} className="flex flex-col items-center gap-1 text-xs text-[var(--color-text-muted)]">
+                {100 - i * 10}%
+                <NumberInput
+                  value={draft.ocvCurve[i]}
+                  onChange={(v) =>
+                    setDraft({ ...draft, ocvCurve: draft.ocvCurve.map((p, j) => (j === i ? v : p)) })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 border-t border-[var(--color-border)] pt-3">
+          <input
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            placeholder="Custom profile name"
+            className="w-48 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!customName.trim()}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+          >
+            Save as custom profile
+          </button>
+          {storageError && <span className="text-xs text-red-600">{storageError}</span>}
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            Changes to Connected Pack
+          </h3>
+          <div className="flex-1" />
+          <button
+            onClick={() => onApply(changes)}
+            disabled={!isConnected || busy || changes.length === 0}
+            className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+          >
+            Apply {changes.length} register{changes.length === 1 ? '' : 's'}
+          </button>
+        </div>
+        {diffs.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-muted)]">The connected pack already matches this profile.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {diffs.map((d) => (
+                <tr key={d.def.key} className="border-t border-[var(--color-border)]">
+                  <td className="py-1">
+                    {d.def.name}
+                    <span className="ml-2 text-xs text-[var(--color-text-muted)]">{d.def.group}</span>
+                  </td>
+                  <td className="py-1 text-right font-mono text-[var(--color-text-muted)]">
+                    {formatField(d.def, d.a)}
+                  </td>
+                  <td className="py-1 text-center text-[var(--color-text-muted)]">→</td>
+                  <td className="py-1 text-right font-mono text-amber-600">{formatField(d.def, d.b)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
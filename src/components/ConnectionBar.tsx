@@ -1,17 +1,30 @@
 import { useState } from 'react';
-import type { ConnectionState, DetectedPort } from '../lib/serial';
+import {
+  TimeoutError,
+  CRCError,
+  FramingError,
+  BMSStatusError,
+  PortClosedError,
+  EEPROMSessionError,
+  ConfigWriteError,
+  VerifyError,
+  type ConnectionState,
+  type DetectedPort,
+} from '../lib/serial';
 
 interface Props {
   connectionState: ConnectionState;
   isPolling: boolean;
   lastUpdate: Date | null;
   error: string | null;
+  lastError: Error | null;
   isSupported: boolean;
   detectedPorts: DetectedPort[];
   isScanning: boolean;
   scanStatus: string | null;
   onConnect: (baudRate: number) => void;
   onConnectToPort: (portIndex: number, baudRate: number) => void;
+  onConnectEmulator: () => void;
   onDisconnect: () => void;
   onStartPolling: (interval: number) => void;
   onStopPolling: () => void;
@@ -36,17 +49,49 @@ const stateLabels: Record<ConnectionState, string> = {
   error: 'Error',
 };
 
+/** Next step to suggest for a given failure type */
+function errorGuidance(err: Error | null): string | null {
+  if (err instanceof TimeoutError) {
+    return 'The BMS did not answer. Check TX/RX wiring (try swapping them), the baud rate, and that the BMS is awake — some boards sleep until charged or a button is pressed.';
+  }
+  if (err instanceof CRCError || err instanceof FramingError) {
+    return 'Data arrived corrupted. Check for a loose connector, a long or unshielded cable, a 3.3 V/5 V level mismatch, or the wrong baud rate.';
+  }
+  if (err instanceof EEPROMSessionError) {
+    return err.phase === 'open'
+      ? 'The BMS refused to enter configuration mode. Disconnect any Bluetooth module or phone app that may hold the session and try again.'
+      : 'Configuration mode did not close cleanly, so the last change may not be saved. Read the configuration back to verify it.';
+  }
+  if (err instanceof ConfigWriteError) {
+    return err.rolledBack
+      ? 'The batch was not applied; every register touched was restored to its previous value. Check the connection and try again.'
+      : 'The batch failed and could not be fully rolled back. Read the configuration back before doing anything else with this pack.';
+  }
+  if (err instanceof VerifyError) {
+    return 'The BMS accepted the write but read back a different value. The value may be outside what this firmware supports.';
+  }
+  if (err instanceof BMSStatusError) {
+    return 'The BMS rejected the command. The register may be unsupported on this firmware, or the value is out of range.';
+  }
+  if (err instanceof PortClosedError) {
+    return 'The serial port is closed. Reconnect the adapter and connect again.';
+  }
+  return null;
+}
+
 export function ConnectionBar({
   connectionState,
   isPolling,
   lastUpdate,
   error,
+  lastError,
   isSupported,
   detectedPorts,
   isScanning,
   scanStatus,
   onConnect,
   onConnectToPort,
+  onConnectEmulator,
   onDisconnect,
   onStartPolling,
   onStopPolling,
@@ -61,12 +106,18 @@ export function ConnectionBar({
   const isBusy = connectionState === 'connecting';
   const isDisconnected = !isConnected && !isBusy;
 
-  if (!isSupported) {
+  if (!isSupported && isDisconnected) {
     return (
-      <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-center">
+      <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-center space-y-2">
         <p className="text-red-600 font-medium">
           Web Serial API is not supported in this browser. Please use Chrome or Edge.
         </p>
+        <button
+          onClick={onConnectEmulator}
+          className="px-4 py-1.5 bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] text-[var(--color-text)] text-sm font-medium rounded-lg transition-colors cursor-pointer"
+        >
+          Try the Emulator
+        </button>
       </div>
     );
   }
@@ -80,6 +131,7 @@ export function ConnectionBar({
   };
 
   const bmsPort = detectedPorts.find((p) => p.isBMS);
+  const guidance = errorGuidance(lastError);
 
   return (
     <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
@@ -168,6 +220,18 @@ export function ConnectionBar({
                 <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
               </svg>
             </button>
+
+            <div className="h-6 w-px bg-[var(--color-border)]" />
+
+            {/* Virtual BMS, no hardware needed */}
+            <button
+              onClick={onConnectEmulator}
+              disabled={isScanning || isBusy}
+              className="px-4 py-1.5 bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 text-[var(--color-text)] text-sm font-medium rounded-lg transition-colors cursor-pointer"
+              title="Connect to an in-browser emulated BMS"
+            >
+              Emulator
+            </button>
           </>
         )}
 
@@ -274,6 +338,7 @@ export function ConnectionBar({
       {error && (
         <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
           {error}
+          {guidance && <p className="mt-1 text-xs text-red-500">{guidance}</p>}
         </div>
       )}
     </div>
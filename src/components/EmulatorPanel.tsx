@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { PROTECTION_FLAGS } from '../lib/jbd-protocol';
+import type { EmulatorFaults, JBDEmulator } from '../lib/emulator';
+
+interface Props {
+  emulator: JBDEmulator;
+}
+
+function SliderRow({
+  label,
+  value,
+  min,
+  max,
+  step,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-3 text-sm">
+      <span className="w-40 shrink-0 text-[var(--color-text-muted)]">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 accent-[var(--color-primary)]"
+      />
+      <span className="w-20 text-right font-mono">
+        {value}
+        {unit && <span className="text-[var(--color-text-muted)]"> {unit}</span>}
+      </span>
+    </label>
+  );
+}
+
+const FAULT_RATES: { key: keyof EmulatorFaults; label: string }[] = [
+  { key: 'crcCorruptionRate', label: 'CRC corruption' },
+  { key: 'dropByteRate', label: 'Dropped byte' },
+  { key: 'errorStatusRate', label: 'Error status' },
+  { key: 'noResponseRate', label: 'No response' },
+];
+
+export function EmulatorPanel({ emulator }: Props) {
+  // The emulator is mutable; this counter just re-renders after each change
+  const [, setRevision] = useState(0);
+  const update = (fn: () => void) => {
+    fn();
+    setRevision((r) => r + 1);
+  };
+
+  const { pack, faults } = emulator;
+
+  return (
+    <div className="space-y-4">
+      <div className="px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-700">
+        Connected to the in-browser emulator. Changes here take effect on the next poll.
+      </div>
+
+      {/* Pack state */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Pack State
+        </h3>
+        <SliderRow
+          label="Cell count"
+          value={emulator.cellCount}
+          min={1}
+          max={24}
+          step={1}
+          unit="S"
+          onChange={(v) => update(() => emulator.setCellCount(v))}
+        />
+        <SliderRow
+          label="State of charge"
+          value={Math.round(pack.soc * 100)}
+          min={0}
+          max={100}
+          step={1}
+          unit="%"
+          onChange={(v) => update(() => (pack.soc = v / 100))}
+        />
+        <SliderRow
+          label="Current"
+          value={pack.current}
+          min={-150}
+          max={80}
+          step={0.5}
+          unit="A"
+          onChange={(v) => update(() => (pack.current = v))}
+        />
+        <SliderRow
+          label="Ambient temperature"
+          value={pack.ambient}
+          min={-30}
+          max={80}
+          step={1}
+          unit="°C"
+          onChange={(v) => update(() => (pack.ambient = v))}
+        />
+        <SliderRow
+          label="Cell resistance"
+          value={pack.internalResistance}
+          min={0}
+          max={10}
+          step={0.1}
+          unit="mΩ"
+          onChange={(v) => update(() => (pack.internalResistance = v))}
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() =>
+              update(() => {
+                pack.cellOffsets = pack.cellOffsets.map(() =>
+                  Math.round((Math.random() - 0.5) * 120)
+                );
+              })
+            }
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Randomise imbalance
+          </button>
+          <button
+            onClick={() => update(() => (pack.cellOffsets = pack.cellOffsets.map(() => 0)))}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Balance all cells
+          </button>
+        </div>
+      </div>
+
+      {/* Forced protection */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] mb-3 uppercase tracking-wider">
+          Force Protection Flags
+        </h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+          {PROTECTION_FLAGS.map((flag) => {
+            const bit = 1 << flag.bit;
+            const active = (pack.forcedProtection & bit) !== 0;
+            return (
+              <label key={flag.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={active}
+                  onChange={() => update(() => (pack.forcedProtection ^= bit))}
+                  className="accent-[var(--color-primary)]"
+                />
+                {flag.label}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Fault injection */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Fault Injection
+        </h3>
+        {FAULT_RATES.map(({ key, label }) => (
+          <SliderRow
+            key={key}
+            label={label}
+            value={Math.round(Number(faults[key]) * 100)}
+            min={0}
+            max={100}
+            step={1}
+            unit="%"
+            onChange={(v) => update(() => ((faults[key] as number) = v / 100))}
+          />
+        ))}
+        <SliderRow
+          label="Latency"
+          value={faults.latencyMs}
+          min={0}
+          max={3000}
+          step={10}
+          unit="ms"
+          onChange={(v) => update(() => (faults.latencyMs = v))}
+        />
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={faults.splitChunks}
+            onChange={(e) => update(() => (faults.splitChunks = e.target.checked))}
+            className="accent-[var(--color-primary)]"
+          />
+          Split responses into random chunks
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { EMPTY_TOTALS, dayKey, energyMeter, formatWh, roundTripEfficiency } from '../lib/energy';
+
+interface Props {
+  deviceId: string;
+}
+
+const DAYS = 30;
+
+// Chart geometry, in viewBox units
+const W = 600;
+const H = 180;
+const PAD = { left: 48, right: 12, top: 8, bottom: 20 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+/** Energy in and out per day for the last 30 days */
+export function EnergyDaily({ deviceId }: Props) {
+  const [ledger, setLedger] = useState(() => energyMeter.ledger(deviceId));
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const days = Array.from({ length: DAYS }, (_, i) => {
+    const key = dayKey(Date.now() - (DAYS - 1 - i) * 86_400_000);
+    return { key, totals: ledger?.days[key] ?? EMPTY_TOTALS };
+  });
+  const peak = Math.max(1, ...days.flatMap((d) => [d.totals.chargeWh, d.totals.dischargeWh]));
+  const barW = PLOT_W / DAYS;
+  const zero = PAD.top + PLOT_H / 2;
+  const scale = PLOT_H / 2 / peak;
+
+  const handleReset = () => {
+    energyMeter.reset(deviceId);
+    setLedger(null);
+    setConfirmReset(false);
+  };
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Daily Energy
+        </h3>
+        <span className="flex items-center gap-1 text-xs text-[var(--color-text-muted)]">
+          <span className="w-3 h-3 bg-emerald-500" /> In
+          <span className="w-3 h-3 ml-2 bg-orange-500" /> Out
+        </span>
+        <div className="flex-1" />
+        {ledger &&
+          (confirmReset ? (
+            <>
+              <span className="text-xs text-red-600">Clear all energy totals for this pack?</span>
+              <button
+                onClick={() => setConfirmReset(false)}
+                className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReset}
+                className="px-3 py-1.5 text-xs bg-red-600 hover:bg-red-700 text-white rounded-lg cursor-pointer"
+              >
+                Clear
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setConfirmReset(true)}
+              className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+            >
+              Reset totals…
+            </button>
+          ))}
+      </div>
+
+      {!ledger ? (
+        <p className="text-sm text-[var(--color-text-muted)]">No energy counted for this pack yet.</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${W} ${H}`} className="w-full">
+            <line x1={PAD.left} x2={W - PAD.right} y1={zero} y2={zero} stroke="var(--color-border)" />
+            <text x={PAD.left - 6} y={PAD.top + 8} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+              {formatWh(peak)}
+            </text>
+            <text x={PAD.left - 6} y={H - PAD.bottom} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+              {formatWh(peak)}
+            </text>
+            {days.map((d, i) => (
+              <g key={d.key}>
+                <rect
+                  x={PAD.left + i * barW + 1}
+                  y={zero - d.totals.chargeWh * scale}
+                  width={barW - 2}
+                  height={d.totals.chargeWh * scale}
+                  fill="#10b981"
+                >
+                  <title>{`${d.key} in ${formatWh(d.totals.chargeWh)}`}</title>
+                </rect>
+                <rect
+                  x={PAD.left + i * barW + 1}
+                  y={zero}
+                  width={barW - 2}
+                  height={d.totals.dischargeWh * scale}
+                  fill="#f97316"
+                >
+                  <title>{`${d.key} out ${formatWh(d.totals.dischargeWh)}`}</title>
+                </rect>
+                {i % 5 === 4 && (
+                  <text
+                    x={PAD.left + (i + 0.5) * barW}
+                    y={H - 6}
+                    textAnchor="middle"
+                    fontSize="10"
+                    fill="var(--color-text-muted)"
+                  >
+                    {d.key.slice(5)}
+                  </text>
+                )}
+              </g>
+            ))}
+          </svg>
+
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-[var(--color-surface-light)]">
+                  <th className="text-left px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Day</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">In</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Out</th>
+                  <th className="text-right px-3 py-1.5 text-xs font-medium text-[var(--color-text-muted)] uppercase">Round Trip</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(ledger.days)
+                  .sort(([a], [b]) => b.localeCompare(a))
+                  .map(([key, totals]) => {
+                    const efficiency = roundTripEfficiency(totals);
+                    return (
+                      <tr key={key} className="border-t border-[var(--color-border)]">
+                        <td className="px-3 py-1.5 font-mono">{key}</td>
+                        <td className="px-3 py-1.5 text-right font-mono">
+                          {formatWh(totals.chargeWh)} · {totals.chargeAh.toFixed(2)} Ah
+                        </td>
+                        <td className="px-3 py-1.5 text-right font-mono">
+                          {formatWh(totals.dischargeWh)} · {totals.dischargeAh.toFixed(2)} Ah
+                        </td>
+                        <td className="px-3 py-1.5 text-right font-mono">
+                          {efficiency === null ? '—' : `${(efficiency * 100).toFixed(1)}%`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
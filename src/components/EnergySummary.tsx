@@ -0,0 +1,68 @@
+import {
+  EMPTY_TOTALS,
+  bmsDiscrepancy,
+  coulombicEfficiency,
+  dayKey,
+  formatWh,
+  roundTripEfficiency,
+  type EnergyLedger,
+  type EnergyTotals,
+} from '../lib/energy';
+
+interface Props {
+  energy: EnergyLedger;
+  sessionId: string | null;
+}
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function TotalsCard({ title, totals }: { title: string; totals: EnergyTotals }) {
+  const discrepancy = bmsDiscrepancy(totals);
+  const netAh = totals.chargeAh - totals.dischargeAh;
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-2">
+      <span className="text-xs font-medium text-[var(--color-text-muted)] uppercase tracking-wider">{title}</span>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div>
+          <div className="text-xs text-[var(--color-text-muted)]">In</div>
+          <div className="font-bold text-emerald-600">{formatWh(totals.chargeWh)}</div>
+          <div className="text-xs font-mono">{totals.chargeAh.toFixed(2)} Ah</div>
+        </div>
+        <div>
+          <div className="text-xs text-[var(--color-text-muted)]">Out</div>
+          <div className="font-bold text-orange-600">{formatWh(totals.dischargeWh)}</div>
+          <div className="text-xs font-mono">{totals.dischargeAh.toFixed(2)} Ah</div>
+        </div>
+      </div>
+      <div className="text-xs text-[var(--color-text-muted)] space-y-0.5">
+        <div>
+          Round trip {percent(roundTripEfficiency(totals))} · Coulombic {percent(coulombicEfficiency(totals))}
+        </div>
+        <div
+          className={discrepancy !== null && Math.abs(discrepancy) > 0.05 ? 'text-amber-600' : ''}
+          title="Integrated net charge against the change in the BMS's remaining capacity"
+        >
+          Net {netAh >= 0 ? '+' : ''}
+          {netAh.toFixed(2)} Ah vs BMS {totals.bmsDeltaAh >= 0 ? '+' : ''}
+          {totals.bmsDeltaAh.toFixed(2)} Ah
+          {discrepancy !== null && ` (${discrepancy >= 0 ? '+' : ''}${(discrepancy * 100).toFixed(1)}%)`}
+        </div>
+        {totals.gapSeconds > 0 && <div>{(totals.gapSeconds / 60).toFixed(0)} min not recorded</div>}
+      </div>
+    </div>
+  );
+}
+
+export function EnergySummary({ energy, sessionId }: Props) {
+  const session = energy.sessions.find((s) => s.id === sessionId)?.totals ?? EMPTY_TOTALS;
+  const today = energy.days[dayKey(Date.now())] ?? EMPTY_TOTALS;
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      <TotalsCard title="This Session" totals={session} />
+      <TotalsCard title="Today" totals={today} />
+      <TotalsCard title="Lifetime" totals={energy.lifetime} />
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useEffect, useState } from 'react';
+import { MINUTE, TelemetryHistory, telemetryHistory, type TelemetrySession } from '../lib/history';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  exportFileName,
+  exportTelemetry,
+  type ExportOptions,
+} from '../lib/telemetry-export';
+import { EnergyDaily } from './EnergyDaily';
+import { BatteryHealth } from './BatteryHealth';
+
+interface Props {
+  /** Pack currently connected, preselected when it has history */
+  deviceId: string | null;
+}
+
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const RANGES: { label: string; span: number | null }[] = [
+  { label: 'Last hour', span: HOUR },
+  { label: 'Last 24 h', span: DAY },
+  { label: 'Last 7 days', span: 7 * DAY },
+  { label: 'Everything', span: null },
+];
+
+const selectClass = 'px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm';
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** Value for a datetime-local input, in local time */
+function toInput(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}T${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+}
+
+function fromInput(value: string): number | null {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function downloadText(fileName: string, text: string, mimeType: string) {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function Option<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+      {label}
+      <select value={value} onChange={(e) => onChange(e.target.value as T)} className={selectClass}>
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function HistoryPanel({ deviceId }: Props) {
+  const [devices, setDevices] = useState<{ deviceId: string; lastSampleAt: number }[]>([]);
+  const [selected, setSelected] = useState<string | null>(deviceId);
+  const [sessions, setSessions] = useState<TelemetrySession[]>([]);
+  const [sessionId, setSessionId] = useState('');
+  const [from, setFrom] = useState(() => toInput(Date.now() - DAY));
+  const [to, setTo] = useState(() => toInput(Date.now()));
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!TelemetryHistory.isSupported()) return;
+    telemetryHistory
+      .devices()
+      .then((list) => {
+        setDevices(list);
+        setSelected((prev) => (prev && list.some((d) => d.deviceId === prev) ? prev : (list[0]?.deviceId ?? null)));
+      })
+      .catch(() => setDevices([]));
+  }, [deviceId]);
+
+  useEffect(() => {
+    setSessionId('');
+    if (!selected) {
+      setSessions([]);
+      return;
+    }
+    telemetryHistory
+      .sessions(selected)
+      .then(setSessions)
+      .catch(() => setSessions([]));
+  }, [selected]);
+
+  const set = (patch: Partial<ExportOptions>) => setOptions((prev) => ({ ...prev, ...patch }));
+
+  const pickRange = (span: number | null) => {
+    const now = Date.now();
+    const earliest = Math.min(now, ...sessions.map((s) => s.startedAt));
+    setSessionId('');
+    setFrom(toInput(span === null ? earliest : now - span));
+    setTo(toInput(now + MINUTE));
+  };
+
+  const pickSession = (id: string) => {
+    setSessionId(id);
+    const session = sessions.find((s) => s.id === id);
+    if (session) {
+      setFrom(toInput(session.startedAt));
+      setTo(toInput(session.lastSampleAt + MINUTE));
+    }
+  };
+
+  const start = fromInput(from);
+  const end = fromInput(to);
+  const rangeValid = start !== null && end !== null && start < end;
+
+  const handleExport = async () => {
+    if (!selected || start === null || end === null) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      const records = await telemetryHistory.query({
+        deviceId: selected,
+        from: start,
+        to: end,
+        sessionId: sessionId || undefined,
+      });
+      if (records.length === 0) {
+        setStatus('No samples in this range');
+        return;
+      }
+      const { text, mimeType } = exportTelemetry(records, options);
+      downloadText(exportFileName(selected, start, end, options.format), text, mimeType);
+      setStatus(`Exported ${records.length} record${records.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!TelemetryHistory.isSupported()) {
+    return (
+      <div className="flex items-center justify-center h-64 text-[var(--color-text-muted)]">
+        This browser has no IndexedDB, so telemetry is not recorded
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            Export Telemetry
+          </h3>
+          <div className="flex-1" />
+          {status && <span className="text-xs text-[var(--color-text-muted)]">{status}</span>}
+          <button
+            onClick={handleExport}
+            disabled={busy || !selected || !rangeValid}
+            className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+          >
+            {busy ? 'Exporting…' : `Export ${options.format === 'csv' ? 'CSV' : 'NDJSON'}`}
+          </button>
+        </div>
+
+        {devices.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-muted)]">
+            Nothing recorded yet. Telemetry is stored automatically while a BMS is polled.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+                Pack
+                <select value={selected ?? ''} onChange={(e) => setSelected(e.target.value)} className={selectClass}>
+                  {devices.map((d) => (
+                    <option key={d.deviceId} value={d.deviceId}>
+                      {d.deviceId}
+                      {d.deviceId === deviceId ? ' (connected)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+                Session
+                <select value={sessionId} onChange={(e) => pickSession(e.target.value)} className={selectClass}>
+                  <option value="">All sessions in range</option>
+                  {sessions.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {new Date(s.startedAt).toLocaleString()} – {new Date(s.lastSampleAt).toLocaleTimeString()} (
+                      {s.samples} samples)
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+                From
+                <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-[var(--color-text-muted)]">
+                To
+                <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} />
+              </label>
+              <div className="flex gap-1">
+                {RANGES.map((r) => (
+                  <button
+                    key={r.label}
+                    onClick={() => pickRange(r.span)}
+                    className="px-2 py-1 text-xs rounded bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] cursor-pointer"
+                  >
+                    {r.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {!rangeValid && <p className="text-xs text-red-600">The start must be before the end</p>}
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 border-t border-[var(--color-border)] pt-3">
+              <Option
+                label="Format"
+                value={options.format}
+                onChange={(format) => set({ format })}
+                options={[
+                  { value: 'csv', label: 'CSV' },
+                  { value: 'ndjson', label: 'NDJSON (full records)' },
+                ]}
+              />
+              <Option
+                label="Column names"
+                value={options.naming}
+                onChange={(naming) => set({ naming })}
+                options={[
+                  { value: 'label', label: 'Pack Voltage [V]' },
+                  { value: 'snake', label: 'pack_voltage_v' },
+                ]}
+              />
+              <Option
+                label="Time"
+                value={options.time}
+                onChange={(time) => set({ time })}
+                options={[
+                  { value: 'iso', label: 'ISO 8601 (UTC)' },
+                  { value: 'local', label: 'Local date and time' },
+                  { value: 'epoch-ms', label: 'Unix ms' },
+                  { value: 'epoch-s', label: 'Unix s' },
+                ]}
+              />
+              <Option
+                label="Cell voltage"
+                value={options.cellVoltage}
+                onChange={(cellVoltage) => set({ cellVoltage })}
+                options={[
+                  { value: 'mV', label: 'mV' },
+                  { value: 'V', label: 'V' },
+                ]}
+              />
+              <Option
+                label="Temperature"
+                value={options.temperature}
+                onChange={(temperature) => set({ temperature })}
+                options={[
+                  { value: 'C', label: '°C' },
+                  { value: 'F', label: '°F' },
+                ]}
+              />
+              <Option
+                label="Delimiter"
+                value={options.delimiter}
+                onChange={(delimiter) => set({ delimiter })}
+                options={[
+                  { value: ',', label: 'Comma' },
+                  { value: ';', label: 'Semicolon' },
+                  { value: '\t', label: 'Tab' },
+                ]}
+              />
+            </div>
+            <p className="text-xs text-[var(--color-text-muted)]">
+              CSV has one column per cell, temperature sensor and protection flag; FET states and flags are 0/1.
+              Older data is stored as 1- and 15-minute means, with a Samples column counting the readings behind
+              each row. NDJSON keeps every stored field in the decoder's units, and ignores the column options.
+            </p>
+          </>
+        )}
+      </div>
+
+      {selected && <EnergyDaily key={selected} deviceId={selected} />}
+      {selected && <BatteryHealth key={selected} deviceId={selected} />}
+    </div>
+  );
+}
@@ -1,9 +1,23 @@
-import type { BMSHardwareInfo, BMSCellInfo } from '../lib/jbd-protocol';
+import { enabledNtcLabels } from '../lib/jbd-protocol';
+import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from '../lib/jbd-protocol';
+import type { EnergyLedger } from '../lib/energy';
+import { summarizeHealth, type HealthRecord } from '../lib/health';
+import { formatDuration } from '../lib/runtime';
+import { useRuntimeEstimate } from '../hooks/useRuntimeEstimate';
+import { TelemetryCharts } from './TelemetryCharts';
+import { EnergySummary } from './EnergySummary';
 
 interface Props {
   hardware: BMSHardwareInfo | null;
   cells: BMSCellInfo | null;
   version: string | null;
+  /** When read, names the temperature sensors from the NTC enable bits */
+  config: BMSConfig | null;
+  deviceId: string | null;
+  sessionId: string | null;
+  lastUpdate: Date | null;
+  energy: EnergyLedger | null;
+  health: HealthRecord | null;
 }
 
 function StatCard({
@@ -78,7 +92,9 @@ function SOCGauge({ rsoc }: { rsoc: number }) {
   );
 }
 
-export function OverviewPanel({ hardware, version }: Props) {
+export function OverviewPanel({ hardware, cells, version, config, deviceId, sessionId, lastUpdate, energy, health }: Props) {
+  const runtime = useRuntimeEstimate(hardware, lastUpdate);
+
   if (!hardware) {
     return (
       <div className="flex items-center justify-center h-64 text-[var(--color-text-muted)]">
@@ -102,6 +118,14 @@ export function OverviewPanel({ hardware, version }: Props) {
   const currentLabel = hardware.current > 0 ? 'Charging' : hardware.current < 0 ? 'Discharging' : 'Idle';
 
   const { year, month, day } = hardware.manufactureDate;
+  const runtimeHours = runtime?.hours ?? null;
+  const soh = health ? summarizeHealth(health).soh : null;
+
+  // The BMS reports enabled NTCs only, in bit order
+  const sensorLabels = config ? enabledNtcLabels(config.ntcConfig) : null;
+  const temperatures = sensorLabels
+    ? hardware.temperatures.slice(0, sensorLabels.length)
+    : hardware.temperatures;
 
   return (
     <div className="space-y-4">
@@ -119,7 +143,7 @@ export function OverviewPanel({ hardware, version }: Props) {
       )}
 
       {/* Main stats grid */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
         <SOCGauge rsoc={hardware.rsoc} />
 
         <StatCard
@@ -144,24 +168,37 @@ export function OverviewPanel({ hardware, version }: Props) {
           sub={`/ ${hardware.fullCapacity.toFixed(2)} Ah`}
         />
 
+        <StatCard
+          label={runtime?.mode === 'charging' ? 'Time to Full' : 'Time to Empty'}
+          value={runtimeHours !== null ? formatDuration(runtimeHours) : '—'}
+          unit=""
+          color={runtime?.mode === 'charging' ? 'text-emerald-600' : 'text-[var(--color-text)]'}
+          sub={
+            !runtime || runtimeHours === null
+              ? 'Idle'
+              : `${runtime.confidence} confidence${runtime.taperHours ? ` · ${formatDuration(runtime.taperHours)} taper` : ''}`
+          }
+        />
+
         <StatCard
           label="Cycles"
           value={hardware.cycles.toString()}
           unit=""
           color="text-purple-600"
+          sub={soh !== null ? `Health ${(soh * 100).toFixed(1)}%` : undefined}
         />
       </div>
 
       {/* Temperatures */}
-      {hardware.temperatures.length > 0 && (
+      {temperatures.length > 0 && (
         <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
-          {hardware.temperatures.map((temp, i) => {
+          {temperatures.map((temp, i) => {
             const tempColor =
               temp > 45 ? 'text-red-600' : temp > 35 ? 'text-amber-600' : temp < 5 ? 'text-blue-600' : 'text-emerald-600';
             return (
               <StatCard
                 key={i}
-                label={`Temp ${i + 1}`}
+                label={sensorLabels?.[i] ?? `Temp ${i + 1}`}
                 value={temp.toFixed(1)}
                 unit="°C"
                 color={tempColor}
@@ -170,6 +207,19 @@ export function OverviewPanel({ hardware, version }: Props) {
           })}
         </div>
       )}
+
+      {/* Energy */}
+      {energy && <EnergySummary energy={energy} sessionId={sessionId} />}
+
+      {/* History */}
+      <TelemetryCharts
+        deviceId={deviceId}
+        sessionId={sessionId}
+        hardware={hardware}
+        cells={cells}
+        lastUpdate={lastUpdate}
+        config={config}
+      />
     </div>
   );
 }
@@ -5,6 +5,11 @@ import type { BMSHardwareInfo } from '../lib/jbd-protocol';
 interface Props {
   hardware: BMSHardwareInfo | null;
   onSetMosfet: (charge: boolean, discharge: boolean) => Promise<void>;
+  onSetRemainingCapacity: (remainingAh: number) => Promise<void>;
+  /** Force balancing on the cells in the mask; 0 = automatic */
+  onSetBalance: (mask: number) => Promise<void>;
+  onReboot: () => Promise<void>;
+  onFactoryReset: () => Promise<void>;
 }
 
 function ProtectionFlag({
@@ -32,8 +37,74 @@ function ProtectionFlag({
   );
 }
 
-export function ProtectionPanel({ hardware, onSetMosfet }: Props) {
+/** Destructive action that only arms once `phrase` is typed exactly */
+function ConfirmPhrase({
+  title,
+  description,
+  phrase,
+  action,
+  onConfirm,
+}: {
+  title: string;
+  description: string;
+  phrase: string;
+  action: string;
+  onConfirm: () => Promise<void>;
+}) {
+  const [typed, setTyped] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    setDone(false);
+    try {
+      await onConfirm();
+      setTyped('');
+      setDone(true);
+    } catch {
+      // useBMS reports the error in the connection bar
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-red-200 bg-red-50 space-y-2">
+      <div className="font-medium text-red-700">{title}</div>
+      <p className="text-sm text-red-700">{description}</p>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          placeholder={`Type ${phrase}`}
+          className="w-48 px-2 py-1 bg-white border border-red-200 rounded text-sm font-mono"
+        />
+        <button
+          onClick={handleConfirm}
+          disabled={busy || typed !== phrase}
+          className="px-3 py-1.5 text-xs bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+        >
+          {busy ? 'Sending…' : action}
+        </button>
+        {done && <span className="text-xs text-emerald-700">Sent</span>}
+      </div>
+    </div>
+  );
+}
+
+export function ProtectionPanel({
+  hardware,
+  onSetMosfet,
+  onSetRemainingCapacity,
+  onSetBalance,
+  onReboot,
+  onFactoryReset,
+}: Props) {
   const [mosLoading, setMosLoading] = useState(false);
+  const [socInput, setSocInput] = useState('');
+  const [balanceCells, setBalanceCells] = useState(0);
+  const [controlBusy, setControlBusy] = useState(false);
 
   if (!hardware) {
     return (
@@ -44,6 +115,20 @@ export function ProtectionPanel({ hardware, onSetMosfet }: Props) {
   }
 
   const hasProtection = hardware.protection !== 0;
+  const balancing = (hardware.balanceLow | (hardware.balanceHigh << 16)) >>> 0;
+  const soc = Number(socInput);
+  const socValid = socInput.trim() !== '' && soc >= 0 && soc <= 100;
+
+  const runControl = async (action: () => Promise<void>) => {
+    setControlBusy(true);
+    try {
+      await action();
+    } catch {
+      // useBMS reports the error in the connection bar
+    } finally {
+      setControlBusy(false);
+    }
+  };
 
   const handleMosfetToggle = async (
     type: 'charge' | 'discharge',
@@ -157,6 +242,106 @@ export function ProtectionPanel({ hardware, onSetMosfet }: Props) {
         </div>
       </div>
 
+      {/* Capacity and balancing */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+          <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            Remaining Capacity
+          </h3>
+          <p className="text-sm">
+            {hardware.remainingCapacity.toFixed(2)} / {hardware.fullCapacity.toFixed(2)} Ah ({hardware.rsoc}%)
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={socInput}
+              onChange={(e) => setSocInput(e.target.value)}
+              placeholder="SOC"
+              className="w-20 px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-right text-sm font-mono"
+            />
+            <span className="text-sm text-[var(--color-text-muted)]">
+              %{socValid && ` = ${((soc / 100) * hardware.fullCapacity).toFixed(2)} Ah`}
+            </span>
+            <button
+              onClick={() => runControl(() => onSetRemainingCapacity((soc / 100) * hardware.fullCapacity))}
+              disabled={controlBusy || !socValid}
+              className="px-3 py-1.5 text-xs bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] disabled:opacity-50 text-white rounded-lg cursor-pointer"
+            >
+              Set SOC
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+          <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+            Balancing
+          </h3>
+          <div className="flex flex-wrap gap-1">
+            {Array.from({ length: hardware.cellCount }, (_, i) => {
+              const bit = 1 << i;
+              const selected = (balanceCells & bit) !== 0;
+              const active = (balancing & bit) !== 0;
+              return (
+                <button
+                  key={i}
+                  onClick={() => setBalanceCells(balanceCells ^ bit)}
+                  title={active ? 'Balancing now' : undefined}
+                  className={`w-9 py-1 text-xs font-mono rounded border cursor-pointer ${
+                    selected
+                      ? 'bg-[var(--color-primary)] border-[var(--color-primary)] text-white'
+                      : 'bg-[var(--color-surface-light)] border-[var(--color-border)]'
+                  } ${active ? 'ring-2 ring-amber-400' : ''}`}
+                >
+                  {i + 1}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => runControl(() => onSetBalance(balanceCells))}
+              disabled={controlBusy || balanceCells === 0}
+              className="px-3 py-1.5 text-xs bg-[var(--color-primary)] hover:bg-[var(--color-primary-dark)] disabled:opacity-50 text-white rounded-lg cursor-pointer"
+            >
+              Force selected
+            </button>
+            <button
+              onClick={() => runControl(() => onSetBalance(0))}
+              disabled={controlBusy}
+              className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 rounded-lg cursor-pointer"
+            >
+              Automatic
+            </button>
+            <span className="text-xs text-[var(--color-text-muted)]">Ringed cells are balancing now</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Reset */}
+      <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          Reset
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <ConfirmPhrase
+            title="Reboot BMS"
+            description="Restarts the firmware. The FETs switch off briefly and latched protections clear."
+            phrase="REBOOT"
+            action="Reboot"
+            onConfirm={onReboot}
+          />
+          <ConfirmPhrase
+            title="Factory reset"
+            description="Overwrites every EEPROM setting, identity string and calibration with factory defaults. Take a backup first."
+            phrase="FACTORY RESET"
+            action="Factory reset"
+            onConfirm={onFactoryReset}
+          />
+        </div>
+      </div>
+
       {/* Raw values */}
       <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4">
         <h3 className="text-sm font-medium text-[var(--color-text-muted)] mb-3 uppercase tracking-wider">
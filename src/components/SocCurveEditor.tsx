@@ -0,0 +1,269 @@
+import { useRef, useState, type PointerEvent } from 'react';
+import type { BMSConfig } from '../lib/jbd-protocol';
+import { diffConfig, type RegisterWrite } from '../lib/jbd-registers';
+import { chemistryFamily } from '../lib/config-backup';
+import { BUILT_IN_PROFILES, loadCustomProfiles } from '../lib/profiles';
+import {
+  SOC_CURVE_POINTS,
+  applyCurve,
+  curveFromConfig,
+  curveFromProfile,
+  fitCurve,
+  isMonotonic,
+  movePoint,
+  parseRestLog,
+  type RestSample,
+} from '../lib/soc-curve';
+
+interface Props {
+  config: BMSConfig;
+  isConnected: boolean;
+  busy: boolean;
+  /** Resolves to whether the batch was applied */
+  onApply: (changes: RegisterWrite[]) => Promise<boolean>;
+}
+
+// Chart geometry, in viewBox units
+const W = 600;
+const H = 280;
+const PAD = { left: 48, right: 12, top: 12, bottom: 28 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+const DEFAULT_REFERENCE = { LTO: 'lto', LiFePO4: 'lifepo4', 'Li-ion': 'nmc' } as const;
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+function rangeOf(values: number[]): Range {
+  const step = 50;
+  return {
+    min: Math.floor((Math.min(...values) - step) / step) * step,
+    max: Math.ceil((Math.max(...values) + step) / step) * step,
+  };
+}
+
+export function SocCurveEditor({ config, isConnected, busy, onApply }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [curve, setCurve] = useState(() => curveFromConfig(config));
+  const [referenceId, setReferenceId] = useState<string>(DEFAULT_REFERENCE[chemistryFamily(config)]);
+  const [samples, setSamples] = useState<RestSample[]>([]);
+  const [logError, setLogError] = useState<string | null>(null);
+  const [drag, setDrag] = useState<{ index: number; range: Range } | null>(null);
+
+  const original = curveFromConfig(config);
+  const profiles = [...BUILT_IN_PROFILES, ...loadCustomProfiles()];
+  const reference = profiles.find((p) => p.id === referenceId);
+  const referenceCurve = reference ? curveFromProfile(reference) : null;
+  const changes = diffConfig(config, applyCurve(config, curve));
+
+  const range =
+    drag?.range ??
+    rangeOf([...original, ...curve, ...(referenceCurve ?? []), ...samples.map((s) => s.mv)]);
+  const x = (soc: number) => PAD.left + (soc / 100) * PLOT_W;
+  const y = (mv: number) => PAD.top + ((range.max - mv) / (range.max - range.min)) * PLOT_H;
+  const line = (values: number[]) =>
+    values.map((mv, i) => `${x(SOC_CURVE_POINTS[i].soc)},${y(mv)}`).join(' ');
+
+  const yTicks: number[] = [];
+  const tickStep = range.max - range.min > 1000 ? 200 : range.max - range.min > 400 ? 100 : 50;
+  for (let mv = Math.ceil(range.min / tickStep) * tickStep; mv <= range.max; mv += tickStep) {
+    yTicks.push(mv);
+  }
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (!drag || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const viewY = ((e.clientY - rect.top) / rect.height) * H;
+    const mv = drag.range.max - ((viewY - PAD.top) / PLOT_H) * (drag.range.max - drag.range.min);
+    setCurve((prev) => movePoint(prev, drag.index, Math.min(drag.range.max, Math.max(drag.range.min, mv))));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseRestLog(await file.text());
+    if (parsed.length < 2) {
+      setSamples([]);
+      setLogError('No "SOC, voltage" rows found in the log');
+      return;
+    }
+    setLogError(null);
+    setSamples(parsed);
+  };
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          SOC Curve
+        </h3>
+        <label className="flex items-center gap-2 text-xs text-[var(--color-text-muted)]">
+          Reference
+          <select
+            value={referenceId}
+            onChange={(e) => setReferenceId(e.target.value)}
+            className="px-2 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-sm"
+          >
+            <option value="">None</option>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex-1" />
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+        >
+          Load rest-voltage log…
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        {samples.length > 0 && (
+          <button
+            onClick={() => setCurve(fitCurve(samples, curve))}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Fit to {samples.length} samples
+          </button>
+        )}
+        {referenceCurve && (
+          <button
+            onClick={() => setCurve(referenceCurve)}
+            className="px-3 py-1.5 text-xs bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] rounded-lg cursor-pointer"
+          >
+            Use reference
+          </button>
+        )}
+        <button
+          onClick={() => setCurve(original)}
+          disabled={changes.length === 0}
+          className="px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-700 rounded-lg cursor-pointer"
+        >
+          Reset
+        </button>
+        <button
+          onClick={() => onApply(changes)}
+          disabled={!isConnected || busy || changes.length === 0 || !isMonotonic(curve)}
+          className="px-3 py-1.5 text-xs bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg cursor-pointer"
+        >
+          Write {changes.length} register{changes.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {logError && <p className="text-xs text-red-600">{logError}</p>}
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${W} ${H}`}
+        className="w-full select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDrag(null)}
+        onPointerLeave={() => setDrag(null)}
+      >
+        {/* Grid */}
+        {yTicks.map((mv) => (
+          <g key={mv}>
+            <line x1={PAD.left} x2={W - PAD.right} y1={y(mv)} y2={y(mv)} stroke="var(--color-border)" />
+            <text x={PAD.left - 6} y={y(mv) + 4} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+              {mv}
+            </text>
+          </g>
+        ))}
+        {SOC_CURVE_POINTS.map(({ soc }) => (
+          <text key={soc} x={x(soc)} y={H - 10} textAnchor="middle" fontSize="10" fill="var(--color-text-muted)">
+            {soc}%
+          </text>
+        ))}
+
+        {/* Reference, device and log */}
+        {referenceCurve && (
+          <polyline points={line(referenceCurve)} fill="none" stroke="#a855f7" strokeWidth="1.5" strokeDasharray="4 3" />
+        )}
+        <polyline points={line(original)} fill="none" stroke="var(--color-text-muted)" strokeWidth="1" />
+        {samples.map((s, i) => (
+          <circle key={i} cx={x(s.soc)} cy={y(s.mv)} r="2" fill="#f59e0b" opacity="0.7" />
+        ))}
+
+        {/* Editable curve */}
+        <polyline points={line(curve)} fill="none" stroke="var(--color-primary)" strokeWidth="2" />
+        {curve.map((mv, i) => (
+          <circle
+            key={SOC_CURVE_POINTS[i].key}
+            cx={x(SOC_CURVE_POINTS[i].soc)}
+            cy={y(mv)}
+            r={drag?.index === i ? 7 : 5}
+            fill={mv !== original[i] ? '#d97706' : 'var(--color-primary)'}
+            stroke="white"
+            strokeWidth="1.5"
+            className="cursor-ns-resize"
+            onPointerDown={(e) => {
+              e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+              setDrag({ index: i, range });
+            }}
+          />
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-[var(--color-text-muted)]">
+        <span className="flex items-center gap-1">
+          <span className="w-4 h-0.5 bg-[var(--color-primary)]" /> Edited
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-4 h-0.5 bg-[var(--color-text-muted)]" /> On device
+        </span>
+        {referenceCurve && (
+          <span className="flex items-center gap-1">
+            <span className="w-4 h-0.5 bg-purple-500" /> {reference?.name}
+          </span>
+        )}
+        {samples.length > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-amber-500" /> Rest-voltage log
+          </span>
+        )}
+      </div>
+
+      {/* Exact values */}
+      <div className="flex flex-wrap gap-2 border-t border-[var(--color-border)] pt-3">
+        {curve.map((mv, i) => (
+          <label
+            key={SOC_CURVE_POINTS[i].key}
+            className="flex flex-col items-center gap-1 text-xs text-[var(--color-text-muted)]"
+          >
+            {SOC_CURVE_POINTS[i].soc}%
+            <input
+              type="number"
+              value={mv}
+              onChange={(e) => {
+                const v = Number(e.target.value);
+                if (!isNaN(v)) setCurve(curve.map((p, j) => (j === i ? v : p)));
+              }}
+              onBlur={() => setCurve(movePoint(curve, i, curve[i]))}
+              className={`w-16 px-1 py-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-right text-sm font-mono ${
+                mv !== original[i] ? 'text-amber-600' : ''
+              }`}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-[var(--color-text-muted)]">
+        Per-cell rest voltage in mV. Points stay in falling order from 100% to 0%; the 0% point is the
+        charge end voltage. Logs are CSV or text with one "SOC %, voltage" pair per line.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { enabledNtcLabels } from '../lib/jbd-protocol';
+import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from '../lib/jbd-protocol';
+import { MINUTE, rangeOf, type TelemetryRecord } from '../lib/history';
+import { useChartWindow, useTelemetryHistory, type HistoryView } from '../hooks/useTelemetryHistory';
+import { TimeSeriesChart, type ChartPoint, type ChartSeries } from './TimeSeriesChart';
+
+interface Props {
+  deviceId: string | null;
+  sessionId: string | null;
+  hardware: BMSHardwareInfo | null;
+  cells: BMSCellInfo | null;
+  lastUpdate: Date | null;
+  /** When read, draws protection thresholds and names the temperature sensors */
+  config: BMSConfig | null;
+}
+
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const WINDOWS: { label: string; span: number }[] = [
+  { label: '1m', span: MINUTE },
+  { label: '5m', span: 5 * MINUTE },
+  { label: '15m', span: 15 * MINUTE },
+  { label: '1h', span: HOUR },
+  { label: '6h', span: 6 * HOUR },
+  { label: '24h', span: DAY },
+  { label: '3d', span: 3 * DAY },
+  { label: '7d', span: 7 * DAY },
+];
+
+const TEMP_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+/** Plot aggregates at the middle of their bucket */
+function midpoint(r: TelemetryRecord): number {
+  return r.time + r.resolution / 2;
+}
+
+function points(
+  records: TelemetryRecord[],
+  value: (r: TelemetryRecord) => number,
+  spread?: (r: TelemetryRecord) => [number, number]
+): ChartPoint[] {
+  return records.map((r) => {
+    const point: ChartPoint = { time: midpoint(r), value: value(r) };
+    if (spread && r.range) [point.min, point.max] = spread(r);
+    return point;
+  });
+}
+
+export function WindowPicker({
+  view,
+  onChange,
+  loading,
+}: {
+  view: HistoryView;
+  onChange: (view: HistoryView) => void;
+  loading: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex gap-1">
+        {WINDOWS.map((w) => (
+          <button
+            key={w.label}
+            onClick={() => onChange({ span: w.span, end: view.end })}
+            className={`px-2 py-1 text-xs rounded cursor-pointer ${
+              view.span === w.span
+                ? 'bg-[var(--color-primary)] text-white'
+                : 'bg-[var(--color-surface-light)] hover:bg-[var(--color-border)]'
+            }`}
+          >
+            {w.label}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange({ span: view.span, end: null })}
+        disabled={view.end === null}
+        className="px-2 py-1 text-xs rounded bg-[var(--color-surface-light)] hover:bg-[var(--color-border)] disabled:opacity-50 cursor-pointer"
+      >
+        {view.end === null ? '● Live' : 'Back to live'}
+      </button>
+      {loading && <span className="text-xs text-[var(--color-text-muted)]">Loading history…</span>}
+      <span className="text-xs text-[var(--color-text-muted)]">Scroll to zoom, drag to pan</span>
+    </div>
+  );
+}
+
+export function TelemetryCharts({ deviceId, sessionId, hardware, cells, lastUpdate, config }: Props) {
+  const { view, setView, zoom, pan } = useChartWindow();
+  const { records, from, to, loading } = useTelemetryHistory(
+    { deviceId, sessionId, hardware, cells, lastUpdate },
+    view
+  );
+
+  const tempCount = Math.max(0, ...records.map((r) => r.hardware.temperatures.length));
+  const sensorLabels = config ? enabledNtcLabels(config.ntcConfig) : null;
+  const temperatures: ChartSeries[] = Array.from({ length: sensorLabels?.length ?? tempCount }, (_, i) => ({
+    label: sensorLabels?.[i] ?? `Temp ${i + 1}`,
+    color: TEMP_COLORS[i % TEMP_COLORS.length],
+    points: points(
+      records.filter((r) => i < r.hardware.temperatures.length),
+      (r) => r.hardware.temperatures[i]
+    ),
+  }));
+
+  const chart = { from, to, onZoom: zoom, onPan: pan };
+
+  return (
+    <div className="space-y-3">
+      <WindowPicker view={view} onChange={setView} loading={loading} />
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-3">
+        <TimeSeriesChart
+          {...chart}
+          title="Pack Voltage"
+          unit="V"
+          series={[
+            {
+              label: 'Pack',
+              color: '#2563eb',
+              points: points(records, (r) => r.hardware.voltage, (r) => rangeOf(r).voltage),
+            },
+          ]}
+          references={
+            config
+              ? [
+                  { label: 'Pack OV', value: config.packOverVoltage, color: '#ef4444' },
+                  { label: 'Pack UV', value: config.packUnderVoltage, color: '#3b82f6' },
+                ]
+              : []
+          }
+        />
+        <TimeSeriesChart
+          {...chart}
+          title="Current"
+          unit="A · charge positive"
+          series={[
+            {
+              label: 'Current',
+              color: '#059669',
+              points: points(records, (r) => r.hardware.current, (r) => rangeOf(r).current),
+            },
+          ]}
+          references={
+            config
+              ? [
+                  { label: 'Charge OC', value: config.overChargeCurrent, color: '#ef4444' },
+                  { label: 'Discharge OC', value: -config.overDisCurrent, color: '#ef4444' },
+                ]
+              : []
+          }
+        />
+        <TimeSeriesChart
+          {...chart}
+          title="Power"
+          unit="W"
+          digits={0}
+          series={[
+            {
+              label: 'Power',
+              color: '#d97706',
+              points: points(records, (r) => r.hardware.voltage * r.hardware.current),
+            },
+          ]}
+        />
+        <TimeSeriesChart
+          {...chart}
+          title="State of Charge"
+          unit="%"
+          digits={0}
+          series={[{ label: 'SOC', color: '#22c55e', points: points(records, (r) => r.hardware.rsoc) }]}
+        />
+        <TimeSeriesChart
+          {...chart}
+          title="Remaining Capacity"
+          unit="Ah"
+          series={[
+            {
+              label: 'Remaining',
+              color: '#7c3aed',
+              points: points(records, (r) => r.hardware.remainingCapacity),
+            },
+          ]}
+        />
+        <TimeSeriesChart
+          {...chart}
+          title="Temperatures"
+          unit="°C"
+          digits={1}
+          series={temperatures}
+          references={
+            config
+              ? [
+                  { label: 'Charge OT', value: config.chgOverTemp, color: '#ef4444' },
+                  { label: 'Discharge OT', value: config.disOverTemp, color: '#f97316' },
+                ]
+              : []
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useEffect, useId, useRef, useState, type PointerEvent } from 'react';
+
+export interface ChartPoint {
+  time: number; // ms since epoch
+  value: number;
+  /** Spread within an aggregate, drawn as a band */
+  min?: number;
+  max?: number;
+}
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: ChartPoint[];
+}
+
+export interface ChartReference {
+  label: string;
+  value: number;
+  color: string;
+}
+
+interface Props {
+  title: string;
+  unit: string;
+  series: ChartSeries[];
+  /** Horizontal threshold lines, e.g. protection limits */
+  references?: ChartReference[];
+  from: number;
+  to: number;
+  digits?: number;
+  /** Scale the window by `factor` around `anchor` (ms since epoch) */
+  onZoom: (factor: number, anchor: number) => void;
+  /** Shift the window by `delta` ms; negative moves back in time */
+  onPan: (delta: number) => void;
+}
+
+// Chart geometry, in viewBox units
+const W = 600;
+const H = 160;
+const PAD = { left: 48, right: 12, top: 8, bottom: 22 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const TIME_STEPS = [
+  SECOND, 5 * SECOND, 10 * SECOND, 15 * SECOND, 30 * SECOND,
+  MINUTE, 5 * MINUTE, 10 * MINUTE, 15 * MINUTE, 30 * MINUTE,
+  HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY,
+];
+
+/** Gaps longer than this many typical sample intervals break the line */
+const GAP_FACTOR = 3;
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatTime(time: number, step: number, span: number): string {
+  const d = new Date(time);
+  const date = `${d.getMonth() + 1}/${d.getDate()}`;
+  const clock = `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  if (step >= DAY) return date;
+  if (span > DAY) return `${date} ${clock}`;
+  return step < MINUTE ? `${clock}:${pad2(d.getSeconds())}` : clock;
+}
+
+/** Round step (1, 2 or 5 × 10ⁿ) giving about four value ticks */
+function valueStep(range: number): number {
+  const raw = range / 4;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+}
+
+/** Split a series where samples are missing, e.g. while disconnected */
+function segments(points: ChartPoint[]): ChartPoint[][] {
+  if (points.length < 2) return [points];
+  const intervals = points.slice(1).map((p, i) => p.time - points[i].time).sort((a, b) => a - b);
+  const limit = Math.max(10 * SECOND, intervals[Math.floor(intervals.length / 2)] * GAP_FACTOR);
+  const out: ChartPoint[][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].time - points[i - 1].time > limit) out.push([]);
+    out[out.length - 1].push(points[i]);
+  }
+  return out;
+}
+
+export function TimeSeriesChart({
+  title,
+  unit,
+  series,
+  references = [],
+  from,
+  to,
+  digits = 2,
+  onZoom,
+  onPan,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const clipId = `plot${useId().replace(/[^\w-]/g, '')}`;
+  const [dragX, setDragX] = useState<number | null>(null);
+  const [hover, setHover] = useState<number | null>(null);
+  const span = to - from;
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  const zoomRef = useRef({ onZoom, from, span });
+  zoomRef.current = { onZoom, from, span };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const viewX = ((e.clientX - rect.left) / rect.width) * W;
+      const { onZoom, from, span } = zoomRef.current;
+      const anchor = from + Math.min(1, Math.max(0, (viewX - PAD.left) / PLOT_W)) * span;
+      onZoom(e.deltaY > 0 ? 1.25 : 0.8, anchor);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const values = [
+    ...series.flatMap((s) => s.points.flatMap((p) => [p.min ?? p.value, p.max ?? p.value])),
+    ...references.map((r) => r.value),
+  ];
+  let min = values.length > 0 ? Math.min(...values) : 0;
+  let max = values.length > 0 ? Math.max(...values) : 1;
+  if (max - min < 10 ** -digits) {
+    min -= 1;
+    max += 1;
+  }
+  const step = valueStep(max - min);
+  min = Math.floor(min / step) * step;
+  max = Math.ceil(max / step) * step;
+
+  const x = (time: number) => PAD.left + ((time - from) / span) * PLOT_W;
+  const y = (value: number) => PAD.top + ((max - value) / (max - min)) * PLOT_H;
+
+  const yTicks: number[] = [];
+  for (let v = min; v <= max + step / 2; v += step) yTicks.push(v);
+  const timeStep = TIME_STEPS.find((s) => span / s <= 6) ?? TIME_STEPS[TIME_STEPS.length - 1];
+  // Align ticks to local time so hour and day ticks land on the hour
+  const offset = new Date(from).getTimezoneOffset() * MINUTE;
+  const xTicks: number[] = [];
+  for (let t = Math.ceil((from - offset) / timeStep) * timeStep + offset; t <= to; t += timeStep) xTicks.push(t);
+
+  const viewX = (e: PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * W;
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const vx = viewX(e);
+    if (dragX !== null) {
+      onPan(-((vx - dragX) / PLOT_W) * span);
+      setDragX(vx);
+    }
+    setHover(vx >= PAD.left && vx <= W - PAD.right ? from + ((vx - PAD.left) / PLOT_W) * span : null);
+  };
+
+  // Latest point at or before the hovered time in each series
+  const readout =
+    hover === null
+      ? null
+      : series.map((s) => {
+          const point = [...s.points].reverse().find((p) => p.time <= hover);
+          return { label: s.label, color: s.color, value: point?.value };
+        });
+
+  return (
+    <div className="bg-[var(--color-surface)] border border-[var(--color-border)] rounded-xl p-4">
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1 mb-2">
+        <h3 className="text-sm font-medium text-[var(--color-text-muted)] uppercase tracking-wider">
+          {title}
+        </h3>
+        <span className="text-xs text-[var(--color-text-muted)]">{unit}</span>
+        <div className="flex-1" />
+        {(readout ?? series.map((s) => ({ ...s, value: s.points[s.points.length - 1]?.value }))).map((r) => (
+          <span key={r.label} className="flex items-center gap-1 text-xs">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: r.color }} />
+            {series.length > 1 && <span className="text-[var(--color-text-muted)]">{r.label}</span>}
+            <span className="font-mono">{r.value === undefined ? '—' : r.value.toFixed(digits)}</span>
+          </span>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${W} ${H}`}
+        className={`w-full select-none touch-none ${dragX !== null ? 'cursor-grabbing' : 'cursor-grab'}`}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragX(viewX(e));
+        }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragX(null)}
+        onPointerLeave={() => {
+          setDragX(null);
+          setHover(null);
+        }}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={PAD.left} y={PAD.top} width={PLOT_W} height={PLOT_H} />
+          </clipPath>
+        </defs>
+
+        {/* Grid */}
+        {yTicks.map((v) => (
+          <g key={v}>
+            <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="var(--color-border)" />
+            <text x={PAD.left - 6} y={y(v) + 4} textAnchor="end" fontSize="10" fill="var(--color-text-muted)">
+              {Number(v.toFixed(6))}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((t) => (
+          <text key={t} x={x(t)} y={H - 6} textAnchor="middle" fontSize="10" fill="var(--color-text-muted)">
+            {formatTime(t, timeStep, span)}
+          </text>
+        ))}
+
+        <g clipPath={`url(#${clipId})`}>
+          {/* Thresholds */}
+          {references.map((r) => (
+            <g key={r.label}>
+              <line
+                x1={PAD.left}
+                x2={W - PAD.right}
+                y1={y(r.value)}
+                y2={y(r.value)}
+                stroke={r.color}
+                strokeDasharray="4 3"
+              />
+              <text x={W - PAD.right - 4} y={y(r.value) - 3} textAnchor="end" fontSize="9" fill={r.color}>
+                {r.label}
+              </text>
+            </g>
+          ))}
+
+          {/* Series, with aggregate spread behind each line */}
+          {series.map((s) =>
+            segments(s.points).map((seg, i) => (
+              <g key={`${s.label}-${i}`}>
+                {seg.some((p) => p.min !== undefined) && (
+                  <polygon
+                    points={[
+                      ...seg.map((p) => `${x(p.time)},${y(p.max ?? p.value)}`),
+                      ...[...seg].reverse().map((p) => `${x(p.time)},${y(p.min ?? p.value)}`),
+                    ].join(' ')}
+                    fill={s.color}
+                    opacity="0.15"
+                  />
+                )}
+                <polyline
+                  points={seg.map((p) => `${x(p.time)},${y(p.value)}`).join(' ')}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth="1.5"
+                />
+              </g>
+            ))
+          )}
+
+          {hover !== null && (
+            <line x1={x(hover)} x2={x(hover)} y1={PAD.top} y2={H - PAD.bottom} stroke="var(--color-text-muted)" />
+          )}
+        </g>
+
+        {series.every((s) => s.points.length === 0) && (
+          <text x={PAD.left + PLOT_W / 2} y={PAD.top + PLOT_H / 2} textAnchor="middle" fontSize="11" fill="var(--color-text-muted)">
+            No data in this window
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -158,6 +158,14 @@ export function TrafficConsole() {
                         </td>
                         {/* Hex data + decoded */}
                         <td className="px-2 py-0.5 break-all">
+                          {entry.unsolicited && (
+                            <span
+                              className="mr-1.5 px-1 py-px bg-amber-50 text-amber-700 border border-amber-200 rounded text-[9px] font-sans font-medium"
+                              title="No request was waiting for this frame (late reply or spontaneous output)"
+                            >
+                              UNSOLICITED
+                            </span>
+                          )}
                           <span>{entry.hex}</span>
                           {showAscii && (
                             <span className="ml-3 text-[var(--color-text-muted)]">
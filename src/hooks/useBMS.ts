@@ -3,9 +3,22 @@ import {
   bmsSerial,
   BMSSerial,
   type ConnectionState,
+  type ConfigWriteProgress,
   type DetectedPort,
 } from '../lib/serial';
+import { EmulatorTransport, type JBDEmulator } from '../lib/emulator';
 import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from '../lib/jbd-protocol';
+import type { RegisterWrite } from '../lib/jbd-registers';
+import {
+  TelemetryHistory,
+  telemetryHistory,
+  deviceIdFor,
+  newSessionId,
+  type PackIdentity,
+} from '../lib/history';
+import { energyMeter, type EnergyLedger } from '../lib/energy';
+import { healthTracker, type HealthRecord } from '../lib/health';
+import { resistanceTracker, type ResistanceRecord } from '../lib/resistance';
 
 export interface BMSState {
   connectionState: ConnectionState;
@@ -14,11 +27,35 @@ export interface BMSState {
   version: string | null;
   config: BMSConfig | null;
   error: string | null;
+  /** The error behind `error`, e.g. a TimeoutError or BMSStatusError */
+  lastError: Error | null;
   isPolling: boolean;
   lastUpdate: Date | null;
   detectedPorts: DetectedPort[];
   isScanning: boolean;
   scanStatus: string | null;
+  emulator: JBDEmulator | null;
+  /** History identity of the connected pack, once a sample has been read */
+  deviceId: string | null;
+  /** Recording session; a new one starts on every connection */
+  sessionId: string | null;
+  /** Charge and energy counted for the connected pack */
+  energy: EnergyLedger | null;
+  /** Capacity history of the connected pack */
+  health: HealthRecord | null;
+  /** Load steps and cell resistance estimates for the connected pack */
+  resistance: ResistanceRecord | null;
+}
+
+/** Message plus the original error, so the UI can tailor its guidance */
+function failure(
+  err: unknown,
+  fallback: string
+): Pick<BMSState, 'error' | 'lastError'> {
+  return {
+    error: err instanceof Error ? err.message : fallback,
+    lastError: err instanceof Error ? err : null,
+  };
 }
 
 export function useBMS() {
@@ -29,15 +66,31 @@ export function useBMS() {
     version: null,
     config: null,
     error: null,
+    lastError: null,
     isPolling: false,
     lastUpdate: null,
     detectedPorts: [],
     isScanning: false,
     scanStatus: null,
+    emulator: null,
+    deviceId: null,
+    sessionId: null,
+    energy: null,
+    health: null,
+    resistance: null,
   });
 
   const pollingRef = useRef(false);
   const pollingTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const recordingRef = useRef<{ deviceId: string; sessionId: string } | null>(null);
+  /**
+   * EEPROM serial number and barcode of the connected pack, with the
+   * HWINFO-derived ID of the pack they were read from (null until the next
+   * sample), so a swapped pack is not recorded under the old one's identity
+   */
+  const identityRef = useRef<{ identity: PackIdentity; fallbackId: string | null } | null>(null);
+  /** Design capacity from the last config read, for the health record */
+  const designCapacityRef = useRef<number | null>(null);
 
   useEffect(() => {
     bmsSerial.setOnStateChange((connectionState) => {
@@ -45,6 +98,16 @@ export function useBMS() {
     });
   }, []);
 
+  // Keep energy and health tracked since the last periodic save
+  useEffect(() => {
+    const flush = () => {
+      energyMeter.flush();
+      healthTracker.flush();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
   // Auto-detect on mount: list previously-granted ports
   useEffect(() => {
     if (!BMSSerial.isSupported()) return;
@@ -70,6 +133,7 @@ export function useBMS() {
       isScanning: true,
       scanStatus: 'Scanning ports...',
       error: null,
+      lastError: null,
     }));
     try {
       const ports = await BMSSerial.autodetect(baudRate, (msg) => {
@@ -88,26 +152,28 @@ export function useBMS() {
         setState((prev) => ({
           ...prev,
           error: null,
+          lastError: null,
           scanStatus: `Auto-connecting to ${bmsPort.label}...`,
         }));
         try {
           await bmsSerial.connectToPort(bmsPort.port, { baudRate });
           setState((prev) => ({ ...prev, scanStatus: null }));
         } catch (err) {
-          const msg =
-            err instanceof Error ? err.message : 'Auto-connect failed';
-          setState((prev) => ({ ...prev, error: msg, scanStatus: null }));
+          setState((prev) => ({
+            ...prev,
+            ...failure(err, 'Auto-connect failed'),
+            scanStatus: null,
+          }));
         }
       }
 
       return ports;
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Scan failed';
       setState((prev) => ({
         ...prev,
         isScanning: false,
         scanStatus: null,
-        error: msg,
+        ...failure(err, 'Scan failed'),
       }));
       return [];
     }
@@ -117,15 +183,14 @@ export function useBMS() {
 
   /** Connect via browser port picker */
   const connect = useCallback(async (baudRate: number = 9600) => {
-    setState((prev) => ({ ...prev, error: null }));
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
     try {
       await bmsSerial.connect({ baudRate });
       // Refresh detected ports after granting a new one
       const ports = await BMSSerial.getDetectedPorts();
       setState((prev) => ({ ...prev, detectedPorts: ports }));
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Connection failed';
-      setState((prev) => ({ ...prev, error: msg }));
+      setState((prev) => ({ ...prev, ...failure(err, 'Connection failed') }));
     }
   }, []);
 
@@ -134,21 +199,37 @@ export function useBMS() {
     async (portIndex: number, baudRate: number = 9600) => {
       const dp = state.detectedPorts[portIndex];
       if (!dp) return;
-      setState((prev) => ({ ...prev, error: null }));
+      setState((prev) => ({ ...prev, error: null, lastError: null }));
       try {
         await bmsSerial.connectToPort(dp.port, { baudRate });
       } catch (err) {
-        const msg = err instanceof Error ? err.message : 'Connection failed';
-        setState((prev) => ({ ...prev, error: msg }));
+        setState((prev) => ({ ...prev, ...failure(err, 'Connection failed') }));
       }
     },
     [state.detectedPorts]
   );
 
+  /** Connect to the in-browser emulator instead of real hardware */
+  const connectEmulator = useCallback(async () => {
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
+    const transport = new EmulatorTransport();
+    try {
+      await bmsSerial.connectTransport(transport);
+      setState((prev) => ({ ...prev, emulator: transport.emulator }));
+    } catch (err) {
+      setState((prev) => ({ ...prev, ...failure(err, 'Emulator failed to start') }));
+    }
+  }, []);
+
   const disconnect = useCallback(async () => {
     pollingRef.current = false;
     if (pollingTimerRef.current) clearTimeout(pollingTimerRef.current);
     await bmsSerial.disconnect();
+    recordingRef.current = null;
+    identityRef.current = null;
+    designCapacityRef.current = null;
+    energyMeter.flush();
+    healthTracker.flush();
     setState((prev) => ({
       ...prev,
       hardware: null,
@@ -157,29 +238,96 @@ export function useBMS() {
       config: null,
       isPolling: false,
       error: null,
+      lastError: null,
       lastUpdate: null,
+      emulator: null,
+      deviceId: null,
+      sessionId: null,
+      energy: null,
+      health: null,
+      resistance: null,
     }));
   }, []);
 
   // ── Data reading ───────────────────────────────────────────────────────────
 
+  /**
+   * Append a sample to the telemetry history, the energy counters, the
+   * health record and the load-step detector. A pack swap on the same
+   * connection, or the serial number becoming known, starts a new session.
+   * Storage failures never stop polling.
+   */
+  const record = useCallback((version: string, hardware: BMSHardwareInfo, cells: BMSCellInfo, time: number) => {
+    const fallbackId = deviceIdFor(version, hardware);
+    const known = identityRef.current;
+    if (known && known.fallbackId === null) known.fallbackId = fallbackId;
+    if (known && known.fallbackId !== fallbackId) {
+      // Another pack: neither its identity nor its config's design capacity apply
+      identityRef.current = null;
+      designCapacityRef.current = null;
+    }
+    const deviceId = deviceIdFor(version, hardware, identityRef.current?.identity ?? null);
+    if (recordingRef.current?.deviceId !== deviceId) {
+      recordingRef.current = { deviceId, sessionId: newSessionId() };
+    }
+    const { sessionId } = recordingRef.current;
+    if (TelemetryHistory.isSupported()) {
+      telemetryHistory.append(deviceId, sessionId, hardware, cells, time).catch(() => {});
+    }
+    const sample = {
+      sessionId,
+      time,
+      voltage: hardware.voltage,
+      current: hardware.current,
+      remainingCapacity: hardware.remainingCapacity,
+    };
+    const energy = energyMeter.add(deviceId, sample);
+    let health = healthTracker.add(deviceId, {
+      ...sample,
+      soc: hardware.rsoc,
+      cycles: hardware.cycles,
+      fullCapacity: hardware.fullCapacity,
+    });
+    const designCapacity = designCapacityRef.current;
+    if (designCapacity !== null && health.designCapacity !== designCapacity) {
+      health = healthTracker.setDesignCapacity(deviceId, designCapacity);
+    }
+    const resistance = resistanceTracker.add(deviceId, {
+      time,
+      voltage: hardware.voltage,
+      current: hardware.current,
+      cellVoltages: cells.cellVoltages,
+      fullCapacity: hardware.fullCapacity,
+    });
+    return { deviceId, sessionId, energy, health, resistance };
+  }, []);
+
+  /** Read HWINFO, CELLINFO and HWVER; resolves to the data, or null on failure */
   const readAll = useCallback(async () => {
-    if (!bmsSerial.isConnected) return;
-    setState((prev) => ({ ...prev, error: null }));
+    if (!bmsSerial.isConnected) return null;
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
     try {
       const data = await bmsSerial.readAll();
+      const now = new Date();
+      const { deviceId, sessionId, energy, health, resistance } = record(data.version, data.hardware, data.cells, now.getTime());
       setState((prev) => ({
         ...prev,
         hardware: data.hardware,
         cells: data.cells,
         version: data.version,
-        lastUpdate: new Date(),
+        lastUpdate: now,
+        deviceId,
+        sessionId,
+        energy,
+        health,
+        resistance,
       }));
+      return data;
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Read failed';
-      setState((prev) => ({ ...prev, error: msg }));
+      setState((prev) => ({ ...prev, ...failure(err, 'Read failed') }));
+      return null;
     }
-  }, []);
+  }, [record]);
 
   const startPolling = useCallback(
     (intervalMs: number = 1000) => {
@@ -204,12 +352,23 @@ export function useBMS() {
     [readAll]
   );
 
-  // Auto-start polling at 1 Hz when connected
+  /** Read the serial number and barcode that key the pack's history; without them HWINFO stands in */
+  const readIdentity = useCallback(async () => {
+    try {
+      identityRef.current = { identity: await bmsSerial.readPackIdentity(), fallbackId: null };
+    } catch {
+      identityRef.current = null;
+    }
+  }, []);
+
+  // Identify the pack, then auto-start polling at 1 Hz when connected
   useEffect(() => {
     if (state.connectionState === 'connected' && !pollingRef.current) {
-      startPolling(1000);
+      readIdentity().then(() => {
+        if (bmsSerial.isConnected) startPolling(1000);
+      });
     }
-  }, [state.connectionState, startPolling]);
+  }, [state.connectionState, startPolling, readIdentity]);
 
   const stopPolling = useCallback(() => {
     pollingRef.current = false;
@@ -219,40 +378,67 @@ export function useBMS() {
 
   const readConfig = useCallback(async () => {
     if (!bmsSerial.isConnected) return;
-    setState((prev) => ({ ...prev, error: null }));
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
     try {
       const config = await bmsSerial.readConfig();
+      identityRef.current = {
+        identity: { serialNumber: config.serialNumber, barCode: config.barCode },
+        fallbackId: null,
+      };
+      designCapacityRef.current = config.designCapacity;
       setState((prev) => ({ ...prev, config }));
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Config read failed';
-      setState((prev) => ({ ...prev, error: msg }));
+      setState((prev) => ({ ...prev, ...failure(err, 'Config read failed') }));
     }
   }, []);
 
   const writeRegister = useCallback(
     async (register: number, value: number) => {
       if (!bmsSerial.isConnected) return;
-      setState((prev) => ({ ...prev, error: null }));
+      setState((prev) => ({ ...prev, error: null, lastError: null }));
       try {
         await bmsSerial.writeRegister(register, value);
       } catch (err) {
-        const msg = err instanceof Error ? err.message : 'Write failed';
-        setState((prev) => ({ ...prev, error: msg }));
+        setState((prev) => ({ ...prev, ...failure(err, 'Write failed') }));
         throw err;
       }
     },
     []
   );
 
+  const writeConfig = useCallback(
+    async (changes: RegisterWrite[], onProgress?: (progress: ConfigWriteProgress) => void) => {
+      if (!bmsSerial.isConnected) return;
+      setState((prev) => ({ ...prev, error: null, lastError: null }));
+      try {
+        await bmsSerial.writeConfig(changes, onProgress);
+      } catch (err) {
+        setState((prev) => ({ ...prev, ...failure(err, 'Config write failed') }));
+        throw err;
+      }
+    },
+    []
+  );
+
+  const writeCalibration = useCallback(async (writes: RegisterWrite[]) => {
+    if (!bmsSerial.isConnected) return;
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
+    try {
+      await bmsSerial.writeCalibration(writes);
+    } catch (err) {
+      setState((prev) => ({ ...prev, ...failure(err, 'Calibration failed') }));
+      throw err;
+    }
+  }, []);
+
   const writeTempRegister = useCallback(
     async (register: number, celsius: number) => {
       if (!bmsSerial.isConnected) return;
-      setState((prev) => ({ ...prev, error: null }));
+      setState((prev) => ({ ...prev, error: null, lastError: null }));
       try {
         await bmsSerial.writeTempRegister(register, celsius);
       } catch (err) {
-        const msg = err instanceof Error ? err.message : 'Write failed';
-        setState((prev) => ({ ...prev, error: msg }));
+        setState((prev) => ({ ...prev, ...failure(err, 'Write failed') }));
         throw err;
       }
     },
@@ -262,23 +448,75 @@ export function useBMS() {
   const setMosfet = useCallback(
     async (charge: boolean, discharge: boolean) => {
       if (!bmsSerial.isConnected) return;
-      setState((prev) => ({ ...prev, error: null }));
+      setState((prev) => ({ ...prev, error: null, lastError: null }));
       try {
         await bmsSerial.setMosfet(charge, discharge);
       } catch (err) {
-        const msg =
-          err instanceof Error ? err.message : 'MOSFET control failed';
-        setState((prev) => ({ ...prev, error: msg }));
+        setState((prev) => ({ ...prev, ...failure(err, 'MOSFET control failed') }));
         throw err;
       }
     },
     []
   );
 
+  const setRemainingCapacity = useCallback(async (remainingAh: number) => {
+    if (!bmsSerial.isConnected) return;
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
+    try {
+      await bmsSerial.setRemainingCapacity(remainingAh);
+    } catch (err) {
+      setState((prev) => ({ ...prev, ...failure(err, 'Set capacity failed') }));
+      throw err;
+    }
+  }, []);
+
+  const setBalance = useCallback(async (mask: number) => {
+    if (!bmsSerial.isConnected) return;
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
+    try {
+      await bmsSerial.setBalance(mask);
+    } catch (err) {
+      setState((prev) => ({ ...prev, ...failure(err, 'Balance control failed') }));
+      throw err;
+    }
+  }, []);
+
+  const reboot = useCallback(async () => {
+    if (!bmsSerial.isConnected) return;
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
+    try {
+      await bmsSerial.reboot();
+    } catch (err) {
+      setState((prev) => ({ ...prev, ...failure(err, 'Reboot failed') }));
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Factory reset; the cached config no longer matches the device afterwards,
+   * and neither may the serial, barcode or design capacity, so drop those too
+   * and identify the pack again.
+   */
+  const factoryReset = useCallback(async () => {
+    if (!bmsSerial.isConnected) return;
+    setState((prev) => ({ ...prev, error: null, lastError: null }));
+    try {
+      await bmsSerial.factoryReset();
+      identityRef.current = null;
+      designCapacityRef.current = null;
+      setState((prev) => ({ ...prev, config: null }));
+    } catch (err) {
+      setState((prev) => ({ ...prev, ...failure(err, 'Factory reset failed') }));
+      throw err;
+    }
+    await readIdentity();
+  }, [readIdentity]);
+
   return {
     ...state,
     connect,
     connectToPort,
+    connectEmulator,
     disconnect,
     readAll,
     startPolling,
@@ -286,7 +524,13 @@ export function useBMS() {
     readConfig,
     writeRegister,
     writeTempRegister,
+    writeConfig,
+    writeCalibration,
     setMosfet,
+    setRemainingCapacity,
+    setBalance,
+    reboot,
+    factoryReset,
     autodetect,
     refreshPorts,
     isSupported: BMSSerial.isSupported(),
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import type { BMSHardwareInfo } from '../lib/jbd-protocol';
+import {
+  estimateRuntime,
+  idleCurrent,
+  updateCurrentAverage,
+  type CurrentAverage,
+  type RuntimeEstimate,
+} from '../lib/runtime';
+
+/** Runtime estimate smoothed over every polled sample */
+export function useRuntimeEstimate(hardware: BMSHardwareInfo | null, lastUpdate: Date | null): RuntimeEstimate | null {
+  const [average, setAverage] = useState<CurrentAverage | null>(null);
+
+  useEffect(() => {
+    if (!hardware || !lastUpdate) {
+      setAverage(null);
+      return;
+    }
+    setAverage((prev) =>
+      updateCurrentAverage(prev, hardware.current, lastUpdate.getTime(), idleCurrent(hardware.fullCapacity))
+    );
+    // Only a new poll adds a sample; hardware changes with it
+  }, [lastUpdate]);
+
+  if (!hardware) return null;
+  return estimateRuntime(average, hardware.remainingCapacity, hardware.fullCapacity);
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import type { BMSHardwareInfo, BMSCellInfo } from '../lib/jbd-protocol';
+import { MINUTE, RAW, TelemetryHistory, telemetryHistory, type TelemetryRecord } from '../lib/history';
+
+export interface HistoryView {
+  /** Window width, ms */
+  span: number;
+  /** Window end, ms since epoch; null follows the live stream */
+  end: number | null;
+}
+
+const QUERY_DELAY = 150; // ms
+
+const MIN_SPAN = 30_000;
+const MAX_SPAN = 30 * 24 * 60 * MINUTE;
+
+interface Source {
+  deviceId: string | null;
+  sessionId: string | null;
+  hardware: BMSHardwareInfo | null;
+  cells: BMSCellInfo | null;
+  lastUpdate: Date | null;
+}
+
+/**
+ * Stored history for the window plus, when following live, every sample
+ * polled since the query. The store is re-queried when the window moves or
+ * the live tail grows past a quarter of `maxPoints`. Without a store, only
+ * the live tail is shown.
+ */
+export function useTelemetryHistory(source: Source, view: HistoryView, maxPoints: number = 600) {
+  const { deviceId, sessionId, hardware, cells, lastUpdate } = source;
+  const [stored, setStored] = useState<TelemetryRecord[]>([]);
+  const [live, setLive] = useState<TelemetryRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [generation, setGeneration] = useState(0);
+  const queriedAt = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const to = view.end ?? Date.now();
+    queriedAt.current = to;
+    setLive([]);
+    if (!deviceId || !TelemetryHistory.isSupported()) {
+      setStored([]);
+      return;
+    }
+    // Debounced so dragging the window does not query on every move
+    const timer = setTimeout(() => {
+      setLoading(true);
+      telemetryHistory
+        .query({ deviceId, from: to - view.span, to, maxPoints })
+        .then((records) => {
+          if (!cancelled) setStored(records);
+        })
+        .catch(() => {
+          if (!cancelled) setStored([]);
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, QUERY_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [deviceId, view.span, view.end, maxPoints, generation]);
+
+  useEffect(() => {
+    if (view.end !== null || !hardware || !cells || !lastUpdate) return;
+    const time = lastUpdate.getTime();
+    if (time <= queriedAt.current) return;
+    const record: TelemetryRecord = {
+      deviceId: deviceId ?? '',
+      sessionId: sessionId ?? '',
+      time,
+      resolution: RAW,
+      count: 1,
+      hardware,
+      cells,
+    };
+    setLive((prev) => [...prev.filter((r) => r.time >= time - view.span), record]);
+    // Only a new poll adds a sample; the other inputs change with it
+  }, [lastUpdate]);
+
+  useEffect(() => {
+    if (deviceId && live.length > Math.max(60, maxPoints / 4)) setGeneration((g) => g + 1);
+  }, [deviceId, live.length, maxPoints]);
+
+  const to = view.end ?? lastUpdate?.getTime() ?? Date.now();
+  const from = to - view.span;
+  const records = [...stored, ...live].filter((r) => r.time >= from && r.time <= to);
+  return { records, from, to, loading };
+}
+
+/**
+ * Window state shared by every chart so they zoom and pan together.
+ * Returns the view and its zoom/pan handlers.
+ */
+export function useChartWindow(initialSpan: number = 15 * MINUTE) {
+  const [view, setView] = useState<HistoryView>({ span: initialSpan, end: null });
+
+  // Snap back to live once the window reaches the present
+  const settle = (span: number, end: number | null): HistoryView => ({
+    span,
+    end: end === null || end >= Date.now() ? null : end,
+  });
+
+  const zoom = (factor: number, anchor: number) =>
+    setView((prev) => {
+      const span = Math.min(MAX_SPAN, Math.max(MIN_SPAN, prev.span * factor));
+      if (prev.end === null) return { span, end: null };
+      return settle(span, anchor + (prev.end - anchor) * (span / prev.span));
+    });
+
+  const pan = (delta: number) => setView((prev) => settle(prev.span, (prev.end ?? Date.now()) + delta));
+
+  return { view, setView, zoom, pan };
+}
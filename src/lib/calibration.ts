@@ -0,0 +1,89 @@
+/**
+ * Calibration against reference instruments: the write-only calibration
+ * registers for current and cell voltage, and sense resistor correction.
+ */
+import { JBD_REG } from './jbd-protocol';
+import type { RegisterWrite } from './jbd-registers';
+
+export type CalibrationStep = 'zero' | 'charge' | 'discharge' | 'cells' | 'pack' | 'sense' | 'verify';
+
+export const CALIBRATION_STEPS: { id: CalibrationStep; title: string; instructions: string }[] = [
+  {
+    id: 'zero',
+    title: 'Zero current',
+    instructions: 'Disconnect the charger and every load so no current flows, then zero the current offset.',
+  },
+  {
+    id: 'charge',
+    title: 'Charge current',
+    instructions: 'Apply a steady charge current of at least a few amps and enter the reading from your reference meter.',
+  },
+  {
+    id: 'discharge',
+    title: 'Discharge current',
+    instructions: 'Apply a steady discharge load of at least a few amps and enter the reading from your reference meter.',
+  },
+  {
+    id: 'cells',
+    title: 'Cell voltages',
+    instructions: 'With the pack at rest, measure each cell with a multimeter. Leave a cell blank to skip it.',
+  },
+  {
+    id: 'pack',
+    title: 'Pack voltage',
+    instructions: 'With the pack at rest, measure the pack terminals. The error is spread evenly over the cell readings, so skip this step if you calibrated every cell.',
+  },
+  {
+    id: 'sense',
+    title: 'Sense resistor',
+    instructions: 'For firmware that ignores the current calibration registers: apply a steady current, enter the reference reading, and write a corrected sense resistor value instead.',
+  },
+  {
+    id: 'verify',
+    title: 'Verify',
+    instructions: 'Read HWINFO and CELLINFO again and compare against your instruments.',
+  },
+];
+
+/** Reading error relative to the reference, % */
+export function errorPercent(reading: number, reference: number): number {
+  return reference === 0 ? 0 : ((reading - reference) / Math.abs(reference)) * 100;
+}
+
+/** Zero the current offset; the BMS must see no current when this is written */
+export function zeroCurrentWrite(): RegisterWrite {
+  return { address: JBD_REG.CalIdleCurrent, value: 0 };
+}
+
+/** Tell the BMS the actual current flowing, A (sign picks charge or discharge) */
+export function currentCalibrationWrite(referenceA: number): RegisterWrite {
+  return {
+    address: referenceA >= 0 ? JBD_REG.CalChargeCurrent : JBD_REG.CalDischargeCurrent,
+    value: Math.round(Math.abs(referenceA) * 100),
+  };
+}
+
+/** Cell reference writes for each measured cell; null entries are skipped */
+export function cellCalibrationWrites(measuredMv: (number | null)[]): RegisterWrite[] {
+  return measuredMv.flatMap((mv, i) =>
+    mv === null ? [] : [{ address: JBD_REG.CalCell1 + i, value: Math.round(mv) }]
+  );
+}
+
+/** Scale every cell reading so the cells sum to the measured pack voltage */
+export function packCalibrationWrites(cellMv: number[], measuredPackV: number): RegisterWrite[] {
+  const reported = cellMv.reduce((a, b) => a + b, 0);
+  if (reported === 0) return [];
+  const scale = (measuredPackV * 1000) / reported;
+  return cellCalibrationWrites(cellMv.map((mv) => mv * scale));
+}
+
+/**
+ * Sense resistor (mΩ, 0.1 mΩ steps) that would have reported the reference
+ * current. The BMS divides the shunt voltage by this value, so the reading
+ * error scales it directly.
+ */
+export function correctedSenseResistor(current: number, readingA: number, referenceA: number): number {
+  if (referenceA === 0 || readingA === 0) return current;
+  return Math.round(current * (readingA / referenceA) * 10) / 10;
+}
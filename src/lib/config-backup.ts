@@ -0,0 +1,187 @@
+/**
+ * Versioned JSON backups of the EEPROM configuration.
+ *
+ * Raw register values are the source of truth on restore; the decoded
+ * config is stored alongside so the file is readable by a human.
+ */
+import type { BMSConfig } from './jbd-protocol';
+import {
+  CONFIG_ADDRESSES,
+  decodeConfig,
+  diffConfig,
+  encodeConfig,
+  fieldsAtAddress,
+  registerForKey,
+  type RegisterWrite,
+} from './jbd-registers';
+
+export const BACKUP_FORMAT = 'jbd-config-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupIdentity {
+  manufacturerName: string;
+  deviceName: string;
+  barCode: string;
+  serialNumber: number;
+  /** HWVER string, if it was read before the backup was taken */
+  hardwareVersion: string | null;
+}
+
+export interface ConfigBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  identity: BackupIdentity;
+  /** Raw register contents keyed by hex address, e.g. "0x24" */
+  registers: Record<string, number | string>;
+  config: BMSConfig;
+}
+
+/** The file is not a backup this version can read */
+export class BackupFormatError extends Error {
+  override name = 'BackupFormatError';
+}
+
+/** Per-pack fields that a restore must never copy onto another pack */
+export const IDENTITY_KEYS: (keyof BMSConfig)[] = [
+  'manufacturerName',
+  'deviceName',
+  'barCode',
+  'serialNumber',
+  'manufactureDate',
+  'cycleCount',
+];
+
+function addressKey(address: number): string {
+  return `0x${address.toString(16).padStart(2, '0')}`;
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+export function createBackup(config: BMSConfig, hardwareVersion: string | null): ConfigBackup {
+  const registers: Record<string, number | string> = {};
+  for (const [address, value] of encodeConfig(config)) {
+    registers[addressKey(address)] = value;
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    identity: {
+      manufacturerName: config.manufacturerName,
+      deviceName: config.deviceName,
+      barCode: config.barCode,
+      serialNumber: config.serialNumber,
+      hardwareVersion,
+    },
+    registers,
+    config,
+  };
+}
+
+/** Suggested file name, e.g. "jbd-EMU-4S100-1-2026-10-19.json" */
+export function backupFileName(backup: ConfigBackup): string {
+  const name = (backup.identity.deviceName || 'bms').replace(/[^\w.-]+/g, '_');
+  return `jbd-${name}-${backup.identity.serialNumber}-${backup.createdAt.slice(0, 10)}.json`;
+}
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+export function parseBackup(text: string): ConfigBackup {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError('File is not valid JSON');
+  }
+  if (typeof doc !== 'object' || doc === null) {
+    throw new BackupFormatError('File is not a config backup');
+  }
+  const d = doc as Partial<ConfigBackup>;
+  if (d.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError('File is not a config backup');
+  }
+  if (typeof d.version !== 'number' || d.version > BACKUP_VERSION) {
+    throw new BackupFormatError(
+      `Backup version ${d.version} is newer than this app supports (${BACKUP_VERSION})`
+    );
+  }
+  if (typeof d.registers !== 'object' || d.registers === null) {
+    throw new BackupFormatError('Backup has no register values');
+  }
+
+  const raw = new Map<number, number | string>();
+  for (const address of CONFIG_ADDRESSES) {
+    const value = d.registers[addressKey(address)];
+    const isString = fieldsAtAddress(address)[0].encoding === 'string';
+    if (isString ? typeof value !== 'string' : !Number.isInteger(value)) {
+      throw new BackupFormatError(`Register ${addressKey(address)} is missing or malformed`);
+    }
+    raw.set(address, value as number | string);
+  }
+
+  // Rebuild the decoded view from the raw words rather than trusting it
+  const config = decodeConfig(raw);
+  return {
+    format: BACKUP_FORMAT,
+    version: d.version,
+    createdAt: String(d.createdAt ?? ''),
+    identity: {
+      manufacturerName: config.manufacturerName,
+      deviceName: config.deviceName,
+      barCode: config.barCode,
+      serialNumber: config.serialNumber,
+      hardwareVersion: d.identity?.hardwareVersion ?? null,
+    },
+    registers: d.registers,
+    config,
+  };
+}
+
+// ── Restore checks ───────────────────────────────────────────────────────────
+
+export type ChemistryFamily = 'LTO' | 'LiFePO4' | 'Li-ion';
+
+/** Rough chemistry guess from the cell overvoltage limit */
+export function chemistryFamily(config: BMSConfig): ChemistryFamily {
+  if (config.cellOverVoltage <= 3000) return 'LTO';
+  if (config.cellOverVoltage <= 3800) return 'LiFePO4';
+  return 'Li-ion';
+}
+
+export interface RestoreIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** Reasons not to restore `backup` onto the pack whose config is `live` */
+export function checkRestore(backup: ConfigBackup, live: BMSConfig): RestoreIssue[] {
+  const issues: RestoreIssue[] = [];
+  if (backup.config.packNum !== live.packNum) {
+    issues.push({
+      severity: 'error',
+      message: `Backup is for a ${backup.config.packNum}S pack; the connected pack is ${live.packNum}S`,
+    });
+  }
+  const from = chemistryFamily(backup.config);
+  const to = chemistryFamily(live);
+  if (from !== to) {
+    issues.push({
+      severity: 'error',
+      message: `Backup limits look like ${from}; the connected pack is configured for ${to}`,
+    });
+  }
+  if (backup.identity.barCode !== live.barCode || backup.identity.serialNumber !== live.serialNumber) {
+    issues.push({
+      severity: 'warning',
+      message: `Backup was taken from ${backup.identity.barCode || 'another pack'} (serial ${backup.identity.serialNumber}); identity fields will not be copied`,
+    });
+  }
+  return issues;
+}
+
+/** Register writes that restore `backup` onto `live`, leaving identity untouched */
+export function restoreChanges(backup: ConfigBackup, live: BMSConfig): RegisterWrite[] {
+  const identityAddresses = new Set(IDENTITY_KEYS.map((key) => registerForKey(key).address));
+  return diffConfig(live, backup.config).filter((w) => !identityAddresses.has(w.address));
+}
@@ -0,0 +1,88 @@
+/**
+ * Field-by-field comparison of two EEPROM configurations, and named
+ * snapshots kept in localStorage so configs can be compared over time.
+ */
+import type { BMSConfig } from './jbd-protocol';
+import {
+  CONFIG_REGISTERS,
+  encodeRegister,
+  type ConfigValue,
+  type RegisterDef,
+} from './jbd-registers';
+
+export interface FieldDiff {
+  def: RegisterDef;
+  a: ConfigValue;
+  b: ConfigValue;
+  /** Whole register word (or text) on each side */
+  rawA: number | string;
+  rawB: number | string;
+}
+
+function rawValue(def: RegisterDef, config: BMSConfig): number | string {
+  return def.encoding === 'string' ? String(config[def.key]) : encodeRegister(def.address, config);
+}
+
+/** Fields that differ between `a` and `b`, in schema order */
+export function compareConfigs(a: BMSConfig, b: BMSConfig): FieldDiff[] {
+  return CONFIG_REGISTERS.filter((def) => a[def.key] !== b[def.key]).map((def) => ({
+    def,
+    a: a[def.key],
+    b: b[def.key],
+    rawA: rawValue(def, a),
+    rawB: rawValue(def, b),
+  }));
+}
+
+/** `target` with the listed fields taken from `source` */
+export function copyFields(
+  source: BMSConfig,
+  target: BMSConfig,
+  keys: Iterable<keyof BMSConfig>
+): BMSConfig {
+  const next: Record<string, ConfigValue> = { ...target };
+  for (const key of keys) next[key] = source[key];
+  return next as unknown as BMSConfig;
+}
+
+// ── Snapshots ────────────────────────────────────────────────────────────────
+
+export interface ConfigSnapshot {
+  name: string;
+  savedAt: string;
+  config: BMSConfig;
+}
+
+const SNAPSHOT_STORAGE_KEY = 'jbd-config-snapshots';
+
+export function loadSnapshots(): ConfigSnapshot[] {
+  try {
+    const stored = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ConfigSnapshot[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Throws when storage is full or unavailable (e.g. private browsing), so the caller can say so */
+function storeSnapshots(snapshots: ConfigSnapshot[]): void {
+  try {
+    localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshots));
+  } catch {
+    throw new Error('Could not save snapshots: browser storage is full or unavailable');
+  }
+}
+
+/** Save (or overwrite) a snapshot by name; returns the updated list */
+export function saveSnapshot(name: string, config: BMSConfig): ConfigSnapshot[] {
+  const snapshots = loadSnapshots().filter((s) => s.name !== name);
+  snapshots.push({ name, savedAt: new Date().toISOString(), config });
+  storeSnapshots(snapshots);
+  return snapshots;
+}
+
+export function deleteSnapshot(name: string): ConfigSnapshot[] {
+  const snapshots = loadSnapshots().filter((s) => s.name !== name);
+  storeSnapshots(snapshots);
+  return snapshots;
+}
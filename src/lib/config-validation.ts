@@ -0,0 +1,184 @@
+/**
+ * Cross-field validation of a BMSConfig before it is written to EEPROM.
+ *
+ * Single-field limits live in the register schema (min/max); the rules
+ * here catch combinations that are individually valid but unsafe together.
+ */
+import type { BMSConfig } from './jbd-protocol';
+import { chemistryOf } from './profiles';
+import { SOC_CURVE_POINTS, curveFromConfig, isMonotonic } from './soc-curve';
+
+export type Severity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  rule: string;
+  severity: Severity;
+  message: string;
+  /** Fields the issue should be shown against */
+  keys: (keyof BMSConfig)[];
+}
+
+interface Rule {
+  id: string;
+  severity: Severity;
+  keys: (keyof BMSConfig)[];
+  /** Returns a message when the rule is violated */
+  check(c: BMSConfig): string | null;
+}
+
+/** Rule that `low` stays strictly below `high` */
+function below(
+  id: string,
+  severity: Severity,
+  low: keyof BMSConfig,
+  high: keyof BMSConfig,
+  message: string
+): Rule {
+  return {
+    id,
+    severity,
+    keys: [low, high],
+    check: (c) => (Number(c[low]) < Number(c[high]) ? null : message),
+  };
+}
+
+/** Cell limit × series count, in pack volts */
+const packV = (c: BMSConfig, cellMv: number) => (cellMv * c.packNum) / 1000;
+
+export const VALIDATION_RULES: Rule[] = [
+  // Hysteresis: every release point must sit on the safe side of its trip point
+  below('cell-ov-hysteresis', 'error', 'cellOVRelease', 'cellOverVoltage', 'Cell OV release must be below the cell overvoltage limit'),
+  below('cell-uv-hysteresis', 'error', 'cellUnderVoltage', 'cellUVRelease', 'Cell UV release must be above the cell undervoltage limit'),
+  below('pack-ov-hysteresis', 'error', 'packOVRelease', 'packOverVoltage', 'Pack OV release must be below the pack overvoltage limit'),
+  below('pack-uv-hysteresis', 'error', 'packUnderVoltage', 'packUVRelease', 'Pack UV release must be above the pack undervoltage limit'),
+  below('chg-ot-hysteresis', 'error', 'chgOTRelease', 'chgOverTemp', 'Charge over-temperature release must be below the trip point'),
+  below('chg-ut-hysteresis', 'error', 'chgLowTemp', 'chgUTRelease', 'Charge under-temperature release must be above the trip point'),
+  below('dsg-ot-hysteresis', 'error', 'dsgOTRelease', 'disOverTemp', 'Discharge over-temperature release must be below the trip point'),
+  below('dsg-ut-hysteresis', 'error', 'disLowTemp', 'dsgUTRelease', 'Discharge under-temperature release must be above the trip point'),
+
+  // Soft / hard limit ordering
+  below('cell-ov-hard', 'error', 'cellOverVoltage', 'hardCellOverVoltage', 'Hard cell OV must be above the soft cell OV limit'),
+  below('cell-uv-hard', 'error', 'hardCellUnderVoltage', 'cellUnderVoltage', 'Hard cell UV must be below the soft cell UV limit'),
+  below('cell-window', 'error', 'cellUVRelease', 'cellOVRelease', 'Cell UV release must be below cell OV release'),
+
+  // Pack limits against cell limits × packNum
+  {
+    id: 'pack-ov-vs-cells',
+    severity: 'error',
+    keys: ['packOverVoltage', 'cellOVRelease', 'packNum'],
+    check: (c) =>
+      c.packOverVoltage < packV(c, c.cellOVRelease)
+        ? `Pack OV (${c.packOverVoltage} V) trips before the cells reach OV release (${packV(c, c.cellOVRelease).toFixed(2)} V for ${c.packNum}S)`
+        : null,
+  },
+  {
+    id: 'pack-ov-ineffective',
+    severity: 'warning',
+    keys: ['packOverVoltage', 'hardCellOverVoltage', 'packNum'],
+    check: (c) =>
+      c.packOverVoltage > packV(c, c.hardCellOverVoltage)
+        ? `Pack OV is above ${c.packNum} × hard cell OV (${packV(c, c.hardCellOverVoltage).toFixed(2)} V) and will never trip first`
+        : null,
+  },
+  {
+    id: 'pack-uv-vs-cells',
+    severity: 'error',
+    keys: ['packUnderVoltage', 'cellUVRelease', 'packNum'],
+    check: (c) =>
+      c.packUnderVoltage > packV(c, c.cellUVRelease)
+        ? `Pack UV (${c.packUnderVoltage} V) trips before the cells reach UV release (${packV(c, c.cellUVRelease).toFixed(2)} V for ${c.packNum}S)`
+        : null,
+  },
+  {
+    id: 'pack-uv-ineffective',
+    severity: 'warning',
+    keys: ['packUnderVoltage', 'hardCellUnderVoltage', 'packNum'],
+    check: (c) =>
+      c.packUnderVoltage < packV(c, c.hardCellUnderVoltage)
+        ? `Pack UV is below ${c.packNum} × hard cell UV (${packV(c, c.hardCellUnderVoltage).toFixed(2)} V) and will never trip first`
+        : null,
+  },
+
+  // Temperature bands
+  below('chg-temp-band', 'error', 'chgLowTemp', 'chgOverTemp', 'Charge low-temperature limit must be below the high limit'),
+  below('dsg-temp-band', 'error', 'disLowTemp', 'disOverTemp', 'Discharge low-temperature limit must be below the high limit'),
+  {
+    id: 'chg-inside-dsg',
+    severity: 'warning',
+    keys: ['chgOverTemp', 'chgLowTemp', 'disOverTemp', 'disLowTemp'],
+    check: (c) =>
+      c.chgOverTemp > c.disOverTemp || c.chgLowTemp < c.disLowTemp
+        ? 'Charge temperature band extends outside the discharge band'
+        : null,
+  },
+  {
+    id: 'chg-below-freezing',
+    severity: 'warning',
+    keys: ['chgLowTemp'],
+    // LTO and sodium-ion cells take charge below freezing; lithium-ion ones plate lithium
+    check: (c) => {
+      const chemistry = chemistryOf(c);
+      return c.chgLowTemp < 0 && !chemistry.chargesBelowFreezing
+        ? `Charging ${chemistry.name} cells below 0 °C plates lithium`
+        : null;
+    },
+  },
+
+  // Balancing
+  {
+    id: 'balance-in-window',
+    severity: 'error',
+    keys: ['balanceStartVoltage', 'cellUnderVoltage', 'cellOverVoltage'],
+    check: (c) =>
+      c.balanceStartVoltage <= c.cellUnderVoltage || c.balanceStartVoltage >= c.cellOverVoltage
+        ? 'Balance start voltage must lie between cell UV and cell OV'
+        : null,
+  },
+
+  // Capacity and SOC curve
+  {
+    id: 'cycle-capacity',
+    severity: 'warning',
+    keys: ['cycleCapacity', 'designCapacity'],
+    check: (c) =>
+      c.cycleCapacity > c.designCapacity ? 'Cycle capacity is larger than design capacity' : null,
+  },
+  {
+    id: 'full-charge-vs-ov',
+    severity: 'warning',
+    keys: ['fullChargeVol', 'cellOverVoltage'],
+    check: (c) =>
+      c.fullChargeVol >= c.cellOverVoltage
+        ? 'Full charge voltage is at or above cell OV, so 100% SOC may never be reached'
+        : null,
+  },
+  {
+    id: 'ocv-monotonic',
+    severity: 'warning',
+    keys: SOC_CURVE_POINTS.map((p) => p.key),
+    check: (c) =>
+      isMonotonic(curveFromConfig(c)) ? null : 'SOC curve voltages must fall from 100% down to 0%',
+  },
+];
+
+export function validateConfig(config: BMSConfig): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const rule of VALIDATION_RULES) {
+    const message = rule.check(config);
+    if (message) {
+      issues.push({ rule: rule.id, severity: rule.severity, message, keys: rule.keys });
+    }
+  }
+  return issues;
+}
+
+/** Issues indexed by each field they involve */
+export function issuesByKey(issues: ValidationIssue[]): Map<keyof BMSConfig, ValidationIssue[]> {
+  const byKey = new Map<keyof BMSConfig, ValidationIssue[]>();
+  for (const issue of issues) {
+    for (const key of issue.keys) {
+      byKey.set(key, [...(byKey.get(key) ?? []), issue]);
+    }
+  }
+  return byKey;
+}
@@ -0,0 +1,774 @@
+/**
+ * In-browser JBD BMS emulator.
+ *
+ * JBDEmulator answers request frames the way a real board does: HWINFO,
+ * CELLINFO and HWVER reads, EEPROM open/close, and config register reads and
+ * writes for the whole JBD_REG map. Pack behaviour (SOC, cell voltages,
+ * temperatures, protection, balancing) is simulated from the EEPROM contents,
+ * and reported current and cell voltages carry a sensor error that the
+ * calibration registers correct.
+ * EmulatorTransport plugs it into BMSSerial, with optional fault injection.
+ */
+
+import {
+  JBD_START,
+  JBD_END,
+  JBD_CMD_READ,
+  JBD_CMD_WRITE,
+  JBD_CMD_HWINFO,
+  JBD_CMD_CELLINFO,
+  JBD_CMD_HWVER,
+  JBD_REG_EEPROM,
+  JBD_REG_CONFIG,
+  JBD_REG,
+  JBD_MOS_CHARGE,
+  JBD_MOS_DISCHARGE,
+  FUNCTION_FLAGS,
+  calcCRC,
+  JBDFrameParser,
+  decodeTemp,
+  encodeTemp,
+  encodeConfigString,
+} from './jbd-protocol';
+import { BaseTransport } from './transport';
+import { SOC_CURVE_REGISTERS, ocvAt } from './soc-curve';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface EmulatorPackState {
+  /** Cell-to-cell offsets from the pack OCV, mV (drives imbalance) */
+  cellOffsets: number[];
+  /** State of charge, 0–1 */
+  soc: number;
+  /** Requested pack current, A (+ charge, − discharge) */
+  current: number;
+  /** Ambient temperature the NTCs settle towards, °C */
+  ambient: number;
+  /** Per-cell DC internal resistance, mΩ */
+  internalResistance: number;
+  /** Protection bits forced on regardless of measurements */
+  forcedProtection: number;
+  /** Uncalibrated current sensor: zero offset (A) and gain */
+  currentOffset: number;
+  currentGain: number;
+  /** Uncalibrated cell voltage gain */
+  cellVoltageGain: number;
+  /** FET requests from the MOS control register (true = allowed on) */
+  chargeFetAllowed: boolean;
+  dischargeFetAllowed: boolean;
+  hardwareVersion: string;
+  firmwareVersion: number;
+}
+
+export interface EmulatorFaults {
+  /** Probability (0–1) of flipping a CRC byte in a response */
+  crcCorruptionRate: number;
+  /** Probability (0–1) of dropping one byte from a response */
+  dropByteRate: number;
+  /** Probability (0–1) of answering with a non-zero status */
+  errorStatusRate: number;
+  /** Probability (0–1) of not answering at all */
+  noResponseRate: number;
+  /** Response latency, ms */
+  latencyMs: number;
+  /** Deliver responses in small random chunks, like a slow UART */
+  splitChunks: boolean;
+}
+
+export const DEFAULT_FAULTS: EmulatorFaults = {
+  crcCorruptionRate: 0,
+  dropByteRate: 0,
+  errorStatusRate: 0,
+  noResponseRate: 0,
+  latencyMs: 20,
+  splitChunks: false,
+};
+
+/** Status byte the emulator returns for rejected requests */
+export const EMULATOR_ERROR_STATUS = 0x80;
+
+// ── Default EEPROM image (4S LiFePO4, 100 Ah) ────────────────────────────────
+
+function packDate(year: number, month: number, day: number): number {
+  return ((year - 2000) << 9) | (month << 5) | day;
+}
+
+const DEFAULT_REGISTERS: Record<number, number> = {
+  [JBD_REG.DesignCapacity]: 10000,
+  [JBD_REG.CycleCapacity]: 8000,
+  [JBD_REG.FullChargeVol]: 3600,
+  [JBD_REG.ChargeEndVol]: 2700,
+  [JBD_REG.DischargingRate]: 30,
+  [JBD_REG.ManufactureDate]: packDate(2024, 3, 15),
+  [JBD_REG.SerialNumber]: 1,
+  [JBD_REG.CycleCount]: 12,
+  [JBD_REG.ChgOverTemp]: encodeTemp(55),
+  [JBD_REG.ChgOTRelease]: encodeTemp(50),
+  [JBD_REG.ChgLowTemp]: encodeTemp(0),
+  [JBD_REG.ChgUTRelease]: encodeTemp(5),
+  [JBD_REG.DisOverTemp]: encodeTemp(60),
+  [JBD_REG.DsgOTRelease]: encodeTemp(55),
+  [JBD_REG.DisLowTemp]: encodeTemp(-20),
+  [JBD_REG.DsgUTRelease]: encodeTemp(-15),
+  [JBD_REG.PackOverVoltage]: 1460,
+  [JBD_REG.PackOVRelease]: 1400,
+  [JBD_REG.PackUnderVoltage]: 1000,
+  [JBD_REG.PackUVRelease]: 1100,
+  [JBD_REG.CellOverVoltage]: 3650,
+  [JBD_REG.CellOVRelease]: 3400,
+  [JBD_REG.CellUnderVoltage]: 2500,
+  [JBD_REG.CellUVRelease]: 2900,
+  [JBD_REG.OverChargeCurrent]: 5000,
+  [JBD_REG.OverDisCurrent]: 10000,
+  [JBD_REG.BalanceStartVoltage]: 3400,
+  [JBD_REG.BalanceWindow]: 30,
+  [JBD_REG.SenseResistor]: 10,
+  [JBD_REG.BatteryConfig]: 0x001c,
+  [JBD_REG.NtcConfig]: 0x0003,
+  [JBD_REG.PackNum]: 4,
+  [JBD_REG.FetCtrlTime]: 10,
+  [JBD_REG.LedDispTime]: 5,
+  [JBD_REG.VoltageCap80]: 3350,
+  [JBD_REG.VoltageCap60]: 3300,
+  [JBD_REG.VoltageCap40]: 3270,
+  [JBD_REG.VoltageCap20]: 3200,
+  [JBD_REG.HardCellOverVoltage]: 3750,
+  [JBD_REG.HardCellUnderVoltage]: 2300,
+  [JBD_REG.DoubleOCSC]: 0x1338,
+  [JBD_REG.DelayHCOVP]: 0x5005,
+  [JBD_REG.ChgTempDelay]: 0x0202,
+  [JBD_REG.DsgTempDelay]: 0x0202,
+  [JBD_REG.PackVoltDelay]: 0x0202,
+  [JBD_REG.CellVoltDelay]: 0x0202,
+  [JBD_REG.ChgOCDelay]: 0x0820,
+  [JBD_REG.DsgOCDelay]: 0x0820,
+  [JBD_REG.GPS_VOL]: 2800,
+  [JBD_REG.GPS_TIME]: 10,
+  [JBD_REG.VoltageCap90]: 3370,
+  [JBD_REG.VoltageCap70]: 3320,
+  [JBD_REG.VoltageCap50]: 3290,
+  [JBD_REG.VoltageCap30]: 3250,
+  [JBD_REG.VoltageCap10]: 3100,
+  [JBD_REG.VoltageCap100]: 3450,
+};
+
+const DEFAULT_STRINGS: Record<number, string> = {
+  [JBD_REG.ManufacturerName]: 'JBD',
+  [JBD_REG.DeviceName]: 'EMU-4S100',
+  [JBD_REG.BarCode]: 'EMU0000001',
+};
+
+/** Control registers that act on the pack but hold no EEPROM value */
+const CONTROL_REGISTERS: number[] = [
+  JBD_REG.Capacity,
+  JBD_REG.Balance,
+  JBD_REG.Reset,
+  JBD_REG.FRESET,
+];
+
+// Protection bit positions (see PROTECTION_FLAGS)
+const P_CELL_OV = 1 << 0;
+const P_CELL_UV = 1 << 1;
+const P_PACK_OV = 1 << 2;
+const P_PACK_UV = 1 << 3;
+const P_CHG_OT = 1 << 4;
+const P_CHG_LT = 1 << 5;
+const P_DSG_OT = 1 << 6;
+const P_DSG_LT = 1 << 7;
+const P_CHG_OC = 1 << 8;
+const P_DSG_OC = 1 << 9;
+const CHARGE_BLOCKING = P_CELL_OV | P_PACK_OV | P_CHG_OT | P_CHG_LT | P_CHG_OC;
+const DISCHARGE_BLOCKING =
+  P_CELL_UV | P_PACK_UV | P_DSG_OT | P_DSG_LT | P_DSG_OC | (1 << 10);
+
+const BALANCE_RATE = 0.05; // mV of offset removed per second of bleeding
+const THERMAL_TAU = 60; // s
+
+function flagBit(key: string): number {
+  const flag = FUNCTION_FLAGS.find((f) => f.key === key);
+  return flag ? 1 << flag.bit : 0;
+}
+
+function popcount(mask: number): number {
+  let n = 0;
+  for (let m = mask; m; m &= m - 1) n++;
+  return n;
+}
+
+function clamp(v: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, v));
+}
+
+// ── Frame helpers ────────────────────────────────────────────────────────────
+
+function buildResponse(
+  register: number,
+  status: number,
+  data: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  const len = data.length;
+  const crcPayload = new Uint8Array(2 + len);
+  crcPayload[0] = status;
+  crcPayload[1] = len;
+  crcPayload.set(data, 2);
+  const crc = calcCRC(crcPayload);
+
+  const frame = new Uint8Array(7 + len);
+  frame[0] = JBD_START;
+  frame[1] = register;
+  frame[2] = status;
+  frame[3] = len;
+  frame.set(data, 4);
+  frame[4 + len] = (crc >> 8) & 0xff;
+  frame[5 + len] = crc & 0xff;
+  frame[6 + len] = JBD_END;
+  return frame;
+}
+
+function putUint16(buf: Uint8Array, offset: number, value: number) {
+  const v = Math.round(value) & 0xffff;
+  buf[offset] = v >> 8;
+  buf[offset + 1] = v & 0xff;
+}
+
+// ── Emulator ─────────────────────────────────────────────────────────────────
+
+export class JBDEmulator {
+  readonly registers: Map<number, number> = new Map();
+  /** String registers as stored: length byte, then the text */
+  readonly strings: Map<number, Uint8Array> = new Map();
+  pack: EmulatorPackState;
+  faults: EmulatorFaults = { ...DEFAULT_FAULTS };
+
+  private eepromOpen = false;
+  private protection = 0;
+  private balanceMask = 0;
+  /** Cells held in balancing by the Balance control register */
+  private forcedBalance = 0;
+  private temperatures: number[] = [];
+  private lastTick = Date.now();
+  /** Corrections learned from the calibration registers */
+  private calibration = { currentZero: 0, chargeGain: 1, dischargeGain: 1, cellGains: [] as number[] };
+
+  constructor(pack: Partial<EmulatorPackState> = {}) {
+    for (const [reg, val] of Object.entries(DEFAULT_REGISTERS)) {
+      this.registers.set(Number(reg), val);
+    }
+    for (const [reg, text] of Object.entries(DEFAULT_STRINGS)) {
+      this.strings.set(Number(reg), encodeConfigString(text));
+    }
+    const cellCount = this.cellCount;
+    this.pack = {
+      cellOffsets: Array.from({ length: cellCount }, () =>
+        Math.round((Math.random() - 0.5) * 20)
+      ),
+      soc: 0.65,
+      current: 0,
+      ambient: 22,
+      internalResistance: 0.8,
+      forcedProtection: 0,
+      currentOffset: 0,
+      currentGain: 1.02,
+      cellVoltageGain: 1.003,
+      chargeFetAllowed: true,
+      dischargeFetAllowed: true,
+      hardwareVersion: 'JBD-EMU-V1.0',
+      firmwareVersion: 0x20,
+      ...pack,
+    };
+    this.temperatures = Array.from({ length: this.tempCount }, () => this.pack.ambient);
+  }
+
+  get cellCount(): number {
+    return clamp(this.registers.get(JBD_REG.PackNum) ?? 4, 1, 32);
+  }
+
+  get tempCount(): number {
+    return popcount((this.registers.get(JBD_REG.NtcConfig) ?? 0) & 0xff);
+  }
+
+  get isEEPROMOpen(): boolean {
+    return this.eepromOpen;
+  }
+
+  /** Change the series cell count, resizing the imbalance profile */
+  setCellCount(count: number) {
+    const n = clamp(Math.round(count), 1, 32);
+    this.registers.set(JBD_REG.PackNum, n);
+    const offsets = this.pack.cellOffsets.slice(0, n);
+    while (offsets.length < n) offsets.push(0);
+    this.pack.cellOffsets = offsets;
+  }
+
+  // ── Request handling ───────────────────────────────────────────────────────
+
+  /**
+   * Handle one complete request frame and return the response frame,
+   * or null when the BMS would stay silent (malformed request).
+   */
+  handleRequest(frame: Uint8Array): Uint8Array | null {
+    if (frame.length < 7 || frame[0] !== JBD_START) return null;
+    const cmd = frame[1];
+    const reg = frame[2];
+    const len = frame[3];
+    if (frame.length !== 7 + len || frame[6 + len] !== JBD_END) return null;
+
+    const expected = calcCRC(frame.slice(2, 4 + len));
+    const actual = (frame[4 + len] << 8) | frame[5 + len];
+    if (expected !== actual) return null;
+
+    const data = frame.slice(4, 4 + len);
+    this.tick();
+
+    if (cmd === JBD_CMD_READ) return this.handleRead(reg);
+    if (cmd === JBD_CMD_WRITE) return this.handleWrite(reg, data);
+    return null;
+  }
+
+  private handleRead(reg: number): Uint8Array {
+    if (reg === JBD_CMD_HWINFO) return buildResponse(reg, 0, this.encodeHardwareInfo());
+    if (reg === JBD_CMD_CELLINFO) return buildResponse(reg, 0, this.encodeCellInfo());
+    if (reg === JBD_CMD_HWVER) {
+      return buildResponse(reg, 0, new TextEncoder().encode(this.pack.hardwareVersion));
+    }
+
+    if (!this.eepromOpen) return buildResponse(reg, EMULATOR_ERROR_STATUS);
+
+    const text = this.strings.get(reg);
+    if (text) return buildResponse(reg, 0, text);
+
+    const val = this.registers.get(reg);
+    if (val === undefined) return buildResponse(reg, EMULATOR_ERROR_STATUS);
+    const out = new Uint8Array(2);
+    putUint16(out, 0, val);
+    return buildResponse(reg, 0, out);
+  }
+
+  private handleWrite(reg: number, data: Uint8Array): Uint8Array {
+    const value = data.length === 2 ? (data[0] << 8) | data[1] : null;
+
+    if (reg === JBD_REG_EEPROM) {
+      if (value !== 0x5678) return buildResponse(reg, EMULATOR_ERROR_STATUS);
+      this.eepromOpen = true;
+      return buildResponse(reg, 0);
+    }
+    if (reg === JBD_REG_CONFIG) {
+      this.eepromOpen = false;
+      return buildResponse(reg, 0);
+    }
+    if (reg === JBD_REG.Mosfet && value !== null) {
+      this.pack.chargeFetAllowed = (value & JBD_MOS_CHARGE) === 0;
+      this.pack.dischargeFetAllowed = (value & JBD_MOS_DISCHARGE) === 0;
+      return buildResponse(reg, 0);
+    }
+
+    if (!this.eepromOpen) return buildResponse(reg, EMULATOR_ERROR_STATUS);
+
+    if (CONTROL_REGISTERS.includes(reg)) return this.handleControl(reg, data);
+    if (value !== null && this.calibrate(reg, value)) return buildResponse(reg, 0);
+
+    if (this.strings.has(reg)) {
+      // Length byte, then the text
+      if (data.length === 0 || data[0] !== data.length - 1) {
+        return buildResponse(reg, EMULATOR_ERROR_STATUS);
+      }
+      this.strings.set(reg, new Uint8Array(data));
+      return buildResponse(reg, 0);
+    }
+
+    if (!this.registers.has(reg) || value === null) {
+      return buildResponse(reg, EMULATOR_ERROR_STATUS);
+    }
+    if (reg === JBD_REG.PackNum) {
+      this.setCellCount(value);
+    } else {
+      this.registers.set(reg, value);
+    }
+    if (reg === JBD_REG.NtcConfig) {
+      this.temperatures = Array.from({ length: this.tempCount }, () => this.pack.ambient);
+    }
+    return buildResponse(reg, 0);
+  }
+
+  private handleControl(reg: number, data: Uint8Array): Uint8Array {
+    if (reg === JBD_REG.Capacity && data.length === 2) {
+      const remaining = ((data[0] << 8) | data[1]) / 100;
+      if (this.fullCapacity > 0) this.pack.soc = clamp(remaining / this.fullCapacity, 0, 1);
+      return buildResponse(reg, 0);
+    }
+    if (reg === JBD_REG.Balance && data.length === 4) {
+      const low = (data[0] << 8) | data[1];
+      const high = (data[2] << 8) | data[3];
+      this.forcedBalance = (low | (high << 16)) >>> 0;
+      return buildResponse(reg, 0);
+    }
+    if (reg === JBD_REG.Reset) {
+      this.restart();
+      return buildResponse(reg, 0);
+    }
+    if (reg === JBD_REG.FRESET) {
+      for (const [r, val] of Object.entries(DEFAULT_REGISTERS)) this.registers.set(Number(r), val);
+      for (const [r, text] of Object.entries(DEFAULT_STRINGS)) {
+        this.strings.set(Number(r), encodeConfigString(text));
+      }
+      this.setCellCount(this.cellCount);
+      this.calibration = { currentZero: 0, chargeGain: 1, dischargeGain: 1, cellGains: [] };
+      this.restart();
+      return buildResponse(reg, 0);
+    }
+    return buildResponse(reg, EMULATOR_ERROR_STATUS);
+  }
+
+  /** Firmware restart: latches, forced balancing and FET requests clear */
+  private restart() {
+    this.protection = 0;
+    this.forcedBalance = 0;
+    this.pack.chargeFetAllowed = true;
+    this.pack.dischargeFetAllowed = true;
+    this.temperatures = Array.from({ length: this.tempCount }, () => this.pack.ambient);
+  }
+
+  // ── Simulation ─────────────────────────────────────────────────────────────
+
+  private reg(register: number): number {
+    return this.registers.get(register) ?? 0;
+  }
+
+  private get fullCapacity(): number {
+    return this.reg(JBD_REG.DesignCapacity) / 100;
+  }
+
+  /** Open-circuit cell voltage (mV) at the given SOC, from the same curve the SOC editor edits */
+  ocv(soc: number): number {
+    return ocvAt(
+      SOC_CURVE_REGISTERS.map((r) => this.reg(r)),
+      clamp(soc, 0, 1) * 100
+    );
+  }
+
+  /** Current actually flowing once FET state and protection are applied */
+  get effectiveCurrent(): number {
+    const i = this.pack.current;
+    if (i > 0 && !this.chargeFetOn) return 0;
+    if (i < 0 && !this.dischargeFetOn) return 0;
+    return i;
+  }
+
+  get chargeFetOn(): boolean {
+    return this.pack.chargeFetAllowed && (this.reportedProtection & CHARGE_BLOCKING) === 0;
+  }
+
+  get dischargeFetOn(): boolean {
+    return (
+      this.pack.dischargeFetAllowed && (this.reportedProtection & DISCHARGE_BLOCKING) === 0
+    );
+  }
+
+  get reportedProtection(): number {
+    return this.protection | this.pack.forcedProtection;
+  }
+
+  /** Cell voltages in mV under the present load */
+  cellVoltages(): number[] {
+    const base = this.ocv(this.pack.soc);
+    const drop = this.effectiveCurrent * this.pack.internalResistance;
+    return this.pack.cellOffsets.map((off) => base + off + drop);
+  }
+
+  // ── Measurement ────────────────────────────────────────────────────────────
+
+  /** Current as the uncalibrated sensor sees it; scales with the configured sense resistor */
+  private rawCurrent(): number {
+    const senseScale = DEFAULT_REGISTERS[JBD_REG.SenseResistor] / (this.reg(JBD_REG.SenseResistor) || 1);
+    return this.effectiveCurrent * this.pack.currentGain * senseScale + this.pack.currentOffset;
+  }
+
+  /** Reported pack current, A */
+  measuredCurrent(): number {
+    const i = this.rawCurrent() - this.calibration.currentZero;
+    return i * (i > 0 ? this.calibration.chargeGain : this.calibration.dischargeGain);
+  }
+
+  /** Reported cell voltages, mV */
+  measuredCellVoltages(): number[] {
+    return this.cellVoltages().map(
+      (mv, i) => mv * this.pack.cellVoltageGain * (this.calibration.cellGains[i] ?? 1)
+    );
+  }
+
+  /** Apply a calibration register write; false if `reg` is not one */
+  private calibrate(reg: number, value: number): boolean {
+    const cal = this.calibration;
+    if (reg === JBD_REG.CalIdleCurrent) {
+      cal.currentZero = this.rawCurrent();
+      return true;
+    }
+    if (reg === JBD_REG.CalChargeCurrent || reg === JBD_REG.CalDischargeCurrent) {
+      const seen = Math.abs(this.rawCurrent() - cal.currentZero);
+      // Too little current flowing to derive a gain from
+      if (seen < 0.1) return true;
+      const gain = value / 100 / seen;
+      if (reg === JBD_REG.CalChargeCurrent) cal.chargeGain = gain;
+      else cal.dischargeGain = gain;
+      return true;
+    }
+    const cell = reg - JBD_REG.CalCell1;
+    if (cell >= 0 && cell < 32) {
+      const seen = (this.cellVoltages()[cell] ?? 0) * this.pack.cellVoltageGain;
+      if (seen > 0) cal.cellGains[cell] = value / seen;
+      return true;
+    }
+    return false;
+  }
+
+  /** Advance the simulation to now */
+  tick(now: number = Date.now()) {
+    const dt = clamp((now - this.lastTick) / 1000, 0, 3600);
+    this.lastTick = now;
+
+    // Coulomb counting
+    const current = this.effectiveCurrent;
+    if (this.fullCapacity > 0) {
+      this.pack.soc = clamp(
+        this.pack.soc + (current * dt) / 3600 / this.fullCapacity,
+        0,
+        1
+      );
+    }
+
+    // NTCs settle towards ambient plus I²R heating
+    const alpha = 1 - Math.exp(-dt / THERMAL_TAU);
+    const target = this.pack.ambient + (current * current) / 400;
+    this.temperatures = this.temperatures.map((t, i) => t + (target + i * 0.5 - t) * alpha);
+
+    this.updateBalancing(dt);
+    this.updateProtection();
+  }
+
+  private updateBalancing(dt: number) {
+    const cfg = this.reg(JBD_REG.BatteryConfig);
+    const enabled = (cfg & flagBit('balanceEn')) !== 0;
+    const chargeOnly = (cfg & flagBit('chgBalance')) !== 0;
+    this.balanceMask = 0;
+    if (this.forcedBalance) {
+      this.pack.cellOffsets.forEach((_, i) => {
+        if ((this.forcedBalance & (1 << i)) === 0) return;
+        this.balanceMask |= 1 << i;
+        this.pack.cellOffsets[i] -= BALANCE_RATE * dt;
+      });
+      return;
+    }
+    if (!enabled || (chargeOnly && this.effectiveCurrent <= 0)) return;
+
+    const cells = this.cellVoltages();
+    const min = Math.min(...cells);
+    const start = this.reg(JBD_REG.BalanceStartVoltage);
+    const balanceWindow = this.reg(JBD_REG.BalanceWindow);
+    cells.forEach((v, i) => {
+      if (v >= start && v - min > balanceWindow) {
+        this.balanceMask |= 1 << i;
+        this.pack.cellOffsets[i] -= BALANCE_RATE * dt;
+      }
+    });
+  }
+
+  private updateProtection() {
+    const cells = this.cellVoltages();
+    const maxCell = Math.max(...cells);
+    const minCell = Math.min(...cells);
+    const packV = cells.reduce((a, b) => a + b, 0) / 10; // 10 mV units
+    const temps = this.temperatures;
+    const maxT = temps.length ? Math.max(...temps) : this.pack.ambient;
+    const minT = temps.length ? Math.min(...temps) : this.pack.ambient;
+    const current = this.pack.current;
+
+    const latch = (bit: number, trip: boolean, release: boolean) => {
+      if (trip) this.protection |= bit;
+      else if (release) this.protection &= ~bit;
+    };
+
+    latch(P_CELL_OV, maxCell >= this.reg(JBD_REG.CellOverVoltage), maxCell <= this.reg(JBD_REG.CellOVRelease));
+    latch(P_CELL_UV, minCell <= this.reg(JBD_REG.CellUnderVoltage), minCell >= this.reg(JBD_REG.CellUVRelease));
+    latch(P_PACK_OV, packV >= this.reg(JBD_REG.PackOverVoltage), packV <= this.reg(JBD_REG.PackOVRelease));
+    latch(P_PACK_UV, packV <= this.reg(JBD_REG.PackUnderVoltage), packV >= this.reg(JBD_REG.PackUVRelease));
+
+    const t = (r: number) => decodeTemp(this.reg(r));
+    latch(P_CHG_OT, current > 0 && maxT >= t(JBD_REG.ChgOverTemp), maxT <= t(JBD_REG.ChgOTRelease));
+    latch(P_CHG_LT, current > 0 && minT <= t(JBD_REG.ChgLowTemp), minT >= t(JBD_REG.ChgUTRelease));
+    latch(P_DSG_OT, current < 0 && maxT >= t(JBD_REG.DisOverTemp), maxT <= t(JBD_REG.DsgOTRelease));
+    latch(P_DSG_LT, current < 0 && minT <= t(JBD_REG.DisLowTemp), minT >= t(JBD_REG.DsgUTRelease));
+
+    latch(P_CHG_OC, current * 100 > this.reg(JBD_REG.OverChargeCurrent), current <= 0);
+    latch(P_DSG_OC, -current * 100 > this.reg(JBD_REG.OverDisCurrent), current >= 0);
+  }
+
+  // ── Encoders ───────────────────────────────────────────────────────────────
+
+  private encodeHardwareInfo(): Uint8Array {
+    const cells = this.measuredCellVoltages();
+    const temps = this.temperatures;
+    const data = new Uint8Array(23 + temps.length * 2);
+    const full = this.fullCapacity;
+
+    putUint16(data, 0, cells.reduce((a, b) => a + b, 0) / 10);
+    putUint16(data, 2, this.measuredCurrent() * 100);
+    putUint16(data, 4, this.pack.soc * full * 100);
+    putUint16(data, 6, full * 100);
+    putUint16(data, 8, this.reg(JBD_REG.CycleCount));
+    putUint16(data, 10, this.reg(JBD_REG.ManufactureDate));
+    putUint16(data, 12, this.balanceMask & 0xffff);
+    putUint16(data, 14, (this.balanceMask >>> 16) & 0xffff);
+    putUint16(data, 16, this.reportedProtection);
+    data[18] = this.pack.firmwareVersion;
+    data[19] = Math.round(this.pack.soc * 100);
+    data[20] =
+      (this.chargeFetOn ? JBD_MOS_CHARGE : 0) |
+      (this.dischargeFetOn ? JBD_MOS_DISCHARGE : 0);
+    data[21] = cells.length;
+    data[22] = temps.length;
+    temps.forEach((t, i) => putUint16(data, 23 + i * 2, encodeTemp(t)));
+    return data;
+  }
+
+  private encodeCellInfo(): Uint8Array {
+    const cells = this.measuredCellVoltages();
+    const data = new Uint8Array(cells.length * 2);
+    cells.forEach((mv, i) => putUint16(data, i * 2, mv));
+    return data;
+  }
+
+  // ── Fault injection ────────────────────────────────────────────────────────
+
+  /**
+   * Apply the configured faults to a response. Returns null when the
+   * response should be swallowed entirely.
+   */
+  applyFaults(request: Uint8Array, response: Uint8Array): Uint8Array | null {
+    const f = this.faults;
+    if (Math.random() < f.noResponseRate) return null;
+
+    let out = response;
+    if (Math.random() < f.errorStatusRate) {
+      out = buildResponse(request[2], EMULATOR_ERROR_STATUS);
+    }
+    if (Math.random() < f.crcCorruptionRate) {
+      out = new Uint8Array(out);
+      out[out.length - 2] ^= 0x5a;
+    }
+    if (Math.random() < f.dropByteRate && out.length > 1) {
+      const idx = Math.floor(Math.random() * out.length);
+      out = new Uint8Array([...out.slice(0, idx), ...out.slice(idx + 1)]);
+    }
+    return out;
+  }
+}
+
+// ── Transport ────────────────────────────────────────────────────────────────
+
+/**
+ * BMSTransport backed by a JBDEmulator. Incoming request bytes are framed
+ * and answered after the configured latency.
+ */
+export class EmulatorTransport extends BaseTransport {
+  readonly label = 'JBD Emulator';
+  private _isOpen = false;
+  private stream: ReadableStream<Uint8Array> | null = null;
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private requestParser = new JBDFrameParser();
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  constructor(readonly emulator: JBDEmulator = new JBDEmulator()) {
+    super();
+  }
+
+  get isOpen(): boolean {
+    return this._isOpen;
+  }
+
+  get readable(): ReadableStream<Uint8Array> | null {
+    return this._isOpen ? this.ensureStream() : null;
+  }
+
+  private ensureStream(): ReadableStream<Uint8Array> {
+    // Like Web Serial, a cancelled stream is replaced by a fresh one
+    if (!this.stream) {
+      this.stream = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          this.controller = controller;
+        },
+        cancel: () => {
+          this.stream = null;
+          this.controller = null;
+        },
+      });
+    }
+    return this.stream;
+  }
+
+  async open(): Promise<void> {
+    this._isOpen = true;
+    this.requestParser.reset();
+    this.emit({ type: 'open' });
+  }
+
+  async close(): Promise<void> {
+    if (!this._isOpen) return;
+    this._isOpen = false;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    try {
+      this.controller?.close();
+    } catch {
+      /* already closed */
+    }
+    this.stream = null;
+    this.controller = null;
+    this.emit({ type: 'close' });
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this._isOpen) throw new Error('Port not writable');
+    for (const frame of this.requestParser.push(data)) {
+      const response = this.emulator.handleRequest(frame);
+      if (!response) continue;
+      const faulty = this.emulator.applyFaults(frame, response);
+      if (faulty) this.deliver(faulty);
+    }
+  }
+
+  private deliver(bytes: Uint8Array) {
+    const { latencyMs, splitChunks } = this.emulator.faults;
+    const chunks: Uint8Array[] = [];
+    if (splitChunks) {
+      for (let i = 0; i < bytes.length; ) {
+        const size = 1 + Math.floor(Math.random() * 8);
+        chunks.push(bytes.slice(i, i + size));
+        i += size;
+      }
+    } else {
+      chunks.push(bytes);
+    }
+    chunks.forEach((chunk, i) => {
+      this.schedule(() => this.enqueue(chunk), latencyMs + i * 5);
+    });
+  }
+
+  private enqueue(chunk: Uint8Array) {
+    if (!this._isOpen) return;
+    // Bytes arriving between readers are buffered for the next one
+    this.ensureStream();
+    try {
+      this.controller?.enqueue(chunk);
+    } catch {
+      /* stream closed */
+    }
+  }
+
+  private schedule(fn: () => void, ms: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, ms);
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Coulomb and energy counting from polled voltage and current, kept
+ * separately for charge and discharge, per session, per day and lifetime.
+ */
+
+export interface EnergySample {
+  sessionId: string;
+  time: number; // ms since epoch
+  voltage: number; // V
+  current: number; // A, positive when charging
+  remainingCapacity: number; // Ah, as reported by the BMS
+}
+
+export interface EnergyTotals {
+  chargeAh: number;
+  dischargeAh: number;
+  chargeWh: number;
+  dischargeWh: number;
+  /** Change in the BMS's own remaining capacity over the same intervals, Ah */
+  bmsDeltaAh: number;
+  /** Time covered by integration, s */
+  measuredSeconds: number;
+  /** Time skipped because samples were too far apart, s */
+  gapSeconds: number;
+}
+
+export const EMPTY_TOTALS: EnergyTotals = {
+  chargeAh: 0,
+  dischargeAh: 0,
+  chargeWh: 0,
+  dischargeWh: 0,
+  bmsDeltaAh: 0,
+  measuredSeconds: 0,
+  gapSeconds: 0,
+};
+
+/**
+ * Longest interval integrated, ms. Longer gaps (paused polling, a dropped
+ * connection) are not extrapolated: the current during them is unknown.
+ */
+export const MAX_GAP = 30_000;
+
+export function addTotals(a: EnergyTotals, b: EnergyTotals): EnergyTotals {
+  return {
+    chargeAh: a.chargeAh + b.chargeAh,
+    dischargeAh: a.dischargeAh + b.dischargeAh,
+    chargeWh: a.chargeWh + b.chargeWh,
+    dischargeWh: a.dischargeWh + b.dischargeWh,
+    bmsDeltaAh: a.bmsDeltaAh + b.bmsDeltaAh,
+    measuredSeconds: a.measuredSeconds + b.measuredSeconds,
+    gapSeconds: a.gapSeconds + b.gapSeconds,
+  };
+}
+
+/**
+ * Contribution of the interval between two samples, by the trapezoid rule.
+ * When the current changes sign the interval is split at the zero crossing
+ * so charge and discharge are counted separately.
+ */
+export function integrate(prev: EnergySample, next: EnergySample): EnergyTotals {
+  const ms = next.time - prev.time;
+  if (ms <= 0) return EMPTY_TOTALS;
+  if (ms > MAX_GAP || prev.sessionId !== next.sessionId) {
+    return { ...EMPTY_TOTALS, gapSeconds: ms / 1000 };
+  }
+
+  const hours = ms / 3_600_000;
+  const totals = { ...EMPTY_TOTALS, bmsDeltaAh: next.remainingCapacity - prev.remainingCapacity, measuredSeconds: ms / 1000 };
+  const add = (i0: number, i1: number, v0: number, v1: number, h: number) => {
+    const ah = ((i0 + i1) / 2) * h;
+    const wh = ((i0 * v0 + i1 * v1) / 2) * h;
+    if (i0 + i1 >= 0) {
+      totals.chargeAh += ah;
+      totals.chargeWh += wh;
+    } else {
+      totals.dischargeAh -= ah;
+      totals.dischargeWh -= wh;
+    }
+  };
+
+  const { current: i0, voltage: v0 } = prev;
+  const { current: i1, voltage: v1 } = next;
+  if (i0 * i1 < 0) {
+    const f = i0 / (i0 - i1);
+    const vz = v0 + (v1 - v0) * f;
+    add(i0, 0, v0, vz, hours * f);
+    add(0, i1, vz, v1, hours * (1 - f));
+  } else {
+    add(i0, i1, v0, v1, hours);
+  }
+  return totals;
+}
+
+/** Energy out over energy in; meaningful once the pack is back near its starting SOC */
+export function roundTripEfficiency(totals: EnergyTotals): number | null {
+  return totals.chargeWh > 0 ? totals.dischargeWh / totals.chargeWh : null;
+}
+
+/** Charge out over charge in */
+export function coulombicEfficiency(totals: EnergyTotals): number | null {
+  return totals.chargeAh > 0 ? totals.dischargeAh / totals.chargeAh : null;
+}
+
+/**
+ * Difference between the integrated net Ah and the BMS's remaining capacity
+ * change, as a fraction of the Ah moved. Large values point at current
+ * calibration error or a capacity reset.
+ */
+export function bmsDiscrepancy(totals: EnergyTotals): number | null {
+  const moved = totals.chargeAh + totals.dischargeAh;
+  if (moved < 0.1) return null;
+  return (totals.chargeAh - totals.dischargeAh - totals.bmsDeltaAh) / moved;
+}
+
+export function formatWh(wh: number): string {
+  return Math.abs(wh) >= 1000 ? `${(wh / 1000).toFixed(2)} kWh` : `${wh.toFixed(1)} Wh`;
+}
+
+/** Local calendar day of `time`, e.g. "2024-03-15" */
+export function dayKey(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+export interface EnergyLedger {
+  /** Pack identity, see deviceIdFor; keyed on the serial number once read */
+  deviceId: string;
+  lifetime: EnergyTotals;
+  /** By dayKey */
+  days: Record<string, EnergyTotals>;
+  /** Most recent last */
+  sessions: { id: string; startedAt: number; totals: EnergyTotals }[];
+}
+
+const ENERGY_STORAGE_KEY = 'jbd-energy';
+const MAX_DAYS = 400;
+const MAX_SESSIONS = 50;
+const SAVE_INTERVAL = 10_000; // ms
+
+export function loadEnergyLedgers(): Record<string, EnergyLedger> {
+  try {
+    const stored = localStorage.getItem(ENERGY_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, EnergyLedger>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveEnergyLedgers(ledgers: Record<string, EnergyLedger>): void {
+  try {
+    localStorage.setItem(ENERGY_STORAGE_KEY, JSON.stringify(ledgers));
+  } catch {
+    // Storage full or unavailable; totals stay in memory
+  }
+}
+
+function emptyLedger(deviceId: string): EnergyLedger {
+  return { deviceId, lifetime: EMPTY_TOTALS, days: {}, sessions: [] };
+}
+
+/** Fold one interval into a ledger, returning a new ledger */
+export function addToLedger(ledger: EnergyLedger, sample: EnergySample, delta: EnergyTotals): EnergyLedger {
+  const day = dayKey(sample.time);
+  const days = { ...ledger.days, [day]: addTotals(ledger.days[day] ?? EMPTY_TOTALS, delta) };
+  const dayKeys = Object.keys(days).sort();
+  for (const old of dayKeys.slice(0, Math.max(0, dayKeys.length - MAX_DAYS))) delete days[old];
+
+  const current = ledger.sessions.find((s) => s.id === sample.sessionId);
+  const sessions = current
+    ? ledger.sessions.map((s) => (s === current ? { ...s, totals: addTotals(s.totals, delta) } : s))
+    : [...ledger.sessions, { id: sample.sessionId, startedAt: sample.time, totals: delta }].slice(-MAX_SESSIONS);
+
+  return { ...ledger, lifetime: addTotals(ledger.lifetime, delta), days, sessions };
+}
+
+/** Integrates polled samples into per-device ledgers kept in localStorage */
+export class EnergyMeter {
+  private ledgers = loadEnergyLedgers();
+  private last = new Map<string, EnergySample>();
+  private lastSave = 0;
+
+  /** Add a sample; returns the device's updated ledger */
+  add(deviceId: string, sample: EnergySample): EnergyLedger {
+    const prev = this.last.get(deviceId);
+    this.last.set(deviceId, sample);
+    const ledger = this.ledgers[deviceId] ?? emptyLedger(deviceId);
+    const delta = prev ? integrate(prev, sample) : EMPTY_TOTALS;
+    this.ledgers[deviceId] = addToLedger(ledger, sample, delta);
+
+    if (sample.time - this.lastSave >= SAVE_INTERVAL) this.flush(sample.time);
+    return this.ledgers[deviceId];
+  }
+
+  ledger(deviceId: string): EnergyLedger | null {
+    return this.ledgers[deviceId] ?? null;
+  }
+
+  /** Persist now, e.g. on disconnect */
+  flush(now: number = Date.now()): void {
+    this.lastSave = now;
+    saveEnergyLedgers(this.ledgers);
+  }
+
+  /** Forget a device's totals */
+  reset(deviceId: string): void {
+    delete this.ledgers[deviceId];
+    this.last.delete(deviceId);
+    this.flush();
+  }
+}
+
+export const energyMeter = new EnergyMeter();
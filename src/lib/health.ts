@@ -0,0 +1,317 @@
+/**
+ * State of health: the BMS's learned full capacity and capacity measured
+ * over full-to-empty discharge runs, against the design capacity, tracked
+ * over cycles to give a fade rate and a projected end of life.
+ */
+import { integrate, type EnergySample } from './energy';
+
+/** Capacity fraction that counts as end of life */
+export const END_OF_LIFE = 0.8;
+
+/** A run starts once the pack is at least this full, % */
+export const RUN_START_SOC = 98;
+/** A run ending at or below this SOC counts as a full discharge, % */
+export const RUN_EMPTY_SOC = 5;
+/** Runs spanning less SOC than this are discarded, % */
+export const RUN_MIN_DEPTH = 50;
+/** Charge taken in during a run, as a fraction of capacity, that ends it */
+const RUN_MAX_RECHARGE = 0.02;
+
+export interface HealthPoint {
+  time: number; // ms since epoch
+  cycles: number;
+  fullCapacity: number; // Ah, as learned by the BMS
+  /** Design capacity in force when logged; null before the config was read */
+  designCapacity: number | null;
+}
+
+export interface CapacityRun {
+  startedAt: number;
+  endedAt: number;
+  cycles: number;
+  /** Net Ah discharged from full */
+  dischargedAh: number;
+  startSoc: number;
+  endSoc: number;
+  /** Capacity implied by the run, Ah: the net discharge scaled by the SOC it spanned */
+  capacityAh: number;
+  complete: boolean;
+  designCapacity: number | null;
+}
+
+interface OpenRun {
+  startedAt: number;
+  cycles: number;
+  startSoc: number;
+  dischargedAh: number;
+  /** Charge taken in during the run, e.g. regeneration */
+  rechargedAh: number;
+  /** Charge taken in since the last discharge */
+  chargingAh: number;
+  last: EnergySample & { soc: number };
+}
+
+export interface HealthRecord {
+  deviceId: string;
+  /** From the EEPROM, once a config has been read */
+  designCapacity: number | null;
+  points: HealthPoint[];
+  runs: CapacityRun[];
+  openRun: OpenRun | null;
+}
+
+export interface HealthSample extends EnergySample {
+  soc: number; // %
+  cycles: number;
+  fullCapacity: number; // Ah
+}
+
+const MAX_POINTS = 1000;
+const MAX_RUNS = 200;
+
+function endRun(run: OpenRun, designCapacity: number | null): CapacityRun | null {
+  const depth = run.startSoc - run.last.soc;
+  if (depth < RUN_MIN_DEPTH) return null;
+  const complete = run.last.soc <= RUN_EMPTY_SOC;
+  const netAh = run.dischargedAh - run.rechargedAh;
+  return {
+    startedAt: run.startedAt,
+    endedAt: run.last.time,
+    cycles: run.cycles,
+    dischargedAh: netAh,
+    startSoc: run.startSoc,
+    endSoc: run.last.soc,
+    capacityAh: netAh / (depth / 100),
+    complete,
+    designCapacity,
+  };
+}
+
+/**
+ * Fold one sample into a health record. Logs a capacity point whenever the
+ * cycle count or learned capacity changes, and follows discharge runs that
+ * start from full; a run ends on a polling gap, when charging resumes, or
+ * on reaching empty.
+ */
+export function addHealthSample(record: HealthRecord, sample: HealthSample): HealthRecord {
+  let { points, runs, openRun } = record;
+  const { designCapacity } = record;
+
+  const lastPoint = points[points.length - 1];
+  if (
+    !lastPoint ||
+    lastPoint.cycles !== sample.cycles ||
+    lastPoint.fullCapacity !== sample.fullCapacity ||
+    (lastPoint.designCapacity ?? null) !== designCapacity
+  ) {
+    points = [
+      ...points,
+      { time: sample.time, cycles: sample.cycles, fullCapacity: sample.fullCapacity, designCapacity },
+    ].slice(-MAX_POINTS);
+  }
+
+  const finish = (run: OpenRun) => {
+    const done = endRun(run, designCapacity);
+    if (done) runs = [...runs, done].slice(-MAX_RUNS);
+    openRun = null;
+  };
+
+  if (openRun) {
+    const delta = integrate(openRun.last, sample);
+    if (delta.gapSeconds > 0) {
+      finish(openRun);
+    } else {
+      const run: OpenRun = {
+        ...openRun,
+        dischargedAh: openRun.dischargedAh + delta.dischargeAh,
+        rechargedAh: openRun.rechargedAh + delta.chargeAh,
+        chargingAh: delta.dischargeAh > 0 ? delta.chargeAh : openRun.chargingAh + delta.chargeAh,
+        last: sample,
+      };
+      if (run.chargingAh > sample.fullCapacity * RUN_MAX_RECHARGE) {
+        // Charging resumed: close at the point before it did
+        finish(openRun);
+      } else if (sample.soc <= RUN_EMPTY_SOC) {
+        finish(run);
+      } else if (
+        sample.soc >= RUN_START_SOC &&
+        delta.dischargeAh === 0 &&
+        run.dischargedAh < sample.fullCapacity * RUN_MAX_RECHARGE
+      ) {
+        // Still topping off; restart from this sample
+        openRun = { ...run, startedAt: sample.time, startSoc: sample.soc, dischargedAh: 0, rechargedAh: 0, chargingAh: 0 };
+      } else {
+        openRun = run;
+      }
+    }
+  }
+
+  if (!openRun && sample.soc >= RUN_START_SOC) {
+    openRun = {
+      startedAt: sample.time,
+      cycles: sample.cycles,
+      startSoc: sample.soc,
+      dischargedAh: 0,
+      rechargedAh: 0,
+      chargingAh: 0,
+      last: sample,
+    };
+  }
+
+  return { ...record, points, runs, openRun };
+}
+
+// ── Analysis ─────────────────────────────────────────────────────────────────
+
+export interface HealthSummary {
+  /** Capacity as a fraction of design, from measured runs when available */
+  soh: number | null;
+  source: 'measured' | 'bms' | null;
+  /** Learned capacity over design */
+  bmsSoh: number | null;
+  /** Latest run-derived capacity over design */
+  measuredSoh: number | null;
+  /** Capacity lost per 100 cycles, as a fraction of design */
+  fadePer100Cycles: number | null;
+  /** Cycle count at which capacity reaches END_OF_LIFE */
+  endOfLifeCycles: number | null;
+  /** Projected date of END_OF_LIFE from the recent cycling rate */
+  endOfLifeDate: number | null;
+}
+
+/** Least-squares fit y = a + b·x */
+export function linearFit(points: { x: number; y: number }[]): { a: number; b: number } | null {
+  if (points.length < 2) return null;
+  const n = points.length;
+  const mx = points.reduce((s, p) => s + p.x, 0) / n;
+  const my = points.reduce((s, p) => s + p.y, 0) / n;
+  const sxx = points.reduce((s, p) => s + (p.x - mx) ** 2, 0);
+  if (sxx === 0) return null;
+  const b = points.reduce((s, p) => s + (p.x - mx) * (p.y - my), 0) / sxx;
+  return { a: my - b * mx, b };
+}
+
+/**
+ * Points and runs logged under the record's current design capacity, or
+ * before it was known. Ones from under a different design capacity (a
+ * reconfigured or replaced pack) are kept but not compared with the rest.
+ */
+export function currentEntries(record: HealthRecord): Pick<HealthRecord, 'points' | 'runs'> {
+  const matches = (entry: { designCapacity?: number | null }) =>
+    (entry.designCapacity ?? null) === null || entry.designCapacity === record.designCapacity;
+  return { points: record.points.filter(matches), runs: record.runs.filter(matches) };
+}
+
+/** Capacity against cycles used for the fade fit: complete runs, else partial runs, else learned capacity */
+export function fadeSeries(record: HealthRecord): { cycles: number; capacityAh: number }[] {
+  const { points, runs: allRuns } = currentEntries(record);
+  const complete = allRuns.filter((r) => r.complete);
+  const runs = complete.length >= 2 ? complete : allRuns;
+  if (runs.length >= 2) return runs.map((r) => ({ cycles: r.cycles, capacityAh: r.capacityAh }));
+  return points.map((p) => ({ cycles: p.cycles, capacityAh: p.fullCapacity }));
+}
+
+export function summarizeHealth(record: HealthRecord): HealthSummary {
+  const design = record.designCapacity;
+  const { points, runs } = currentEntries(record);
+  const lastPoint = points[points.length - 1];
+  const lastRun = [...runs].reverse().find((r) => r.complete) ?? runs[runs.length - 1];
+  const bmsSoh = design && lastPoint ? lastPoint.fullCapacity / design : null;
+  const measuredSoh = design && lastRun ? lastRun.capacityAh / design : null;
+
+  let fadePer100Cycles: number | null = null;
+  let endOfLifeCycles: number | null = null;
+  let endOfLifeDate: number | null = null;
+  const fit = linearFit(fadeSeries(record).map((p) => ({ x: p.cycles, y: p.capacityAh })));
+  if (design && fit) {
+    fadePer100Cycles = (-fit.b * 100) / design;
+    if (fit.b < 0) {
+      endOfLifeCycles = (END_OF_LIFE * design - fit.a) / fit.b;
+      const first = points[0];
+      const cyclesPerMs = lastPoint && first ? (lastPoint.cycles - first.cycles) / (lastPoint.time - first.time) : 0;
+      if (lastPoint && cyclesPerMs > 0) {
+        endOfLifeDate = lastPoint.time + Math.max(0, endOfLifeCycles - lastPoint.cycles) / cyclesPerMs;
+      }
+    }
+  }
+
+  const soh = measuredSoh ?? bmsSoh;
+  return {
+    soh,
+    source: measuredSoh !== null ? 'measured' : bmsSoh !== null ? 'bms' : null,
+    bmsSoh,
+    measuredSoh,
+    fadePer100Cycles,
+    endOfLifeCycles,
+    endOfLifeDate,
+  };
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+const HEALTH_STORAGE_KEY = 'jbd-health';
+const SAVE_INTERVAL = 30_000; // ms
+
+export function loadHealthRecords(): Record<string, HealthRecord> {
+  try {
+    const stored = localStorage.getItem(HEALTH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, HealthRecord>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveHealthRecords(records: Record<string, HealthRecord>): void {
+  try {
+    localStorage.setItem(HEALTH_STORAGE_KEY, JSON.stringify(records));
+  } catch {
+    // Storage full or unavailable; the record stays in memory
+  }
+}
+
+/** Tracks health per device, kept in localStorage */
+export class HealthTracker {
+  private records = loadHealthRecords();
+  private lastSave = 0;
+
+  private get(deviceId: string): HealthRecord {
+    return this.records[deviceId] ?? { deviceId, designCapacity: null, points: [], runs: [], openRun: null };
+  }
+
+  add(deviceId: string, sample: HealthSample): HealthRecord {
+    const before = this.get(deviceId);
+    const after = addHealthSample(before, sample);
+    this.records[deviceId] = after;
+    // Save promptly when something worth keeping changed
+    if (
+      after.points !== before.points ||
+      after.runs !== before.runs ||
+      sample.time - this.lastSave >= SAVE_INTERVAL
+    ) {
+      this.flush(sample.time);
+    }
+    return after;
+  }
+
+  setDesignCapacity(deviceId: string, designCapacity: number): HealthRecord {
+    this.records[deviceId] = { ...this.get(deviceId), designCapacity };
+    this.flush();
+    return this.records[deviceId];
+  }
+
+  record(deviceId: string): HealthRecord | null {
+    return this.records[deviceId] ?? null;
+  }
+
+  flush(now: number = Date.now()): void {
+    this.lastSave = now;
+    saveHealthRecords(this.records);
+  }
+
+  reset(deviceId: string): void {
+    delete this.records[deviceId];
+    this.flush();
+  }
+}
+
+export const healthTracker = new HealthTracker();
@@ -0,0 +1,384 @@
+/**
+ * Telemetry history in IndexedDB. Every polled HWINFO + CELLINFO pair is
+ * stored raw, then compacted into 1-minute and 15-minute aggregates as it
+ * ages so long recordings stay small.
+ */
+import type { BMSHardwareInfo, BMSCellInfo, BMSConfig } from './jbd-protocol';
+
+// ── Records ──────────────────────────────────────────────────────────────────
+
+export const RAW = 0;
+export const MINUTE = 60_000;
+export const QUARTER_HOUR = 15 * MINUTE;
+
+/** How long each resolution is kept before it is merged into the next, ms */
+export const RETENTION: Record<number, number> = {
+  [RAW]: 24 * 60 * MINUTE,
+  [MINUTE]: 7 * 24 * 60 * MINUTE,
+};
+
+/** Next coarser resolution for each compacted resolution */
+const NEXT_RESOLUTION: Record<number, number> = {
+  [RAW]: MINUTE,
+  [MINUTE]: QUARTER_HOUR,
+};
+
+/** Spread of a record's readings; a raw record spans a single reading */
+export interface TelemetryRange {
+  voltage: [number, number]; // V
+  current: [number, number]; // A
+  cell: [number, number]; // V, lowest and highest cell
+}
+
+export interface TelemetryRecord {
+  deviceId: string;
+  sessionId: string;
+  /** Sample time, or bucket start for aggregates, ms since epoch */
+  time: number;
+  /** 0 for raw samples, otherwise the bucket width in ms */
+  resolution: number;
+  /** Raw samples merged into this record */
+  count: number;
+  /**
+   * Aggregates hold the mean of every analog reading; protection and
+   * balance bits are ORed over the bucket so a short trip is not lost.
+   * Everything else is taken from the last sample.
+   */
+  hardware: BMSHardwareInfo;
+  cells: BMSCellInfo;
+  /** Present on aggregates only */
+  range?: TelemetryRange;
+}
+
+export interface TelemetrySession {
+  id: string;
+  deviceId: string;
+  startedAt: number;
+  lastSampleAt: number;
+  samples: number;
+}
+
+/** EEPROM fields that tell apart packs of the same model and build date */
+export type PackIdentity = Pick<BMSConfig, 'serialNumber' | 'barCode'>;
+
+/**
+ * Identity of the pack a sample came from: the hardware version string and
+ * series count with the EEPROM serial number and barcode. HWINFO carries no
+ * serial number, so until those are read (or when both are blank) the
+ * manufacture date stands in, which two packs built the same day share.
+ */
+export function deviceIdFor(version: string, hardware: BMSHardwareInfo, identity: PackIdentity | null = null): string {
+  const model = `${version.trim() || 'JBD'} ${hardware.cellCount}S`;
+  const barCode = identity?.barCode.trim() ?? '';
+  if (identity && (identity.serialNumber !== 0 || barCode)) {
+    return `${model} SN ${identity.serialNumber}${barCode ? ` ${barCode}` : ''}`;
+  }
+  const { year, month, day } = hardware.manufactureDate;
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return `${model} ${date}`;
+}
+
+export function newSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function rangeOf(record: TelemetryRecord): TelemetryRange {
+  if (record.range) return record.range;
+  const { voltage, current } = record.hardware;
+  const cells = record.cells.cellVoltages;
+  return {
+    voltage: [voltage, voltage],
+    current: [current, current],
+    cell: cells.length > 0 ? [Math.min(...cells), Math.max(...cells)] : [0, 0],
+  };
+}
+
+function weightedMean(records: TelemetryRecord[], total: number, pick: (r: TelemetryRecord) => number): number {
+  return records.reduce((sum, r) => sum + pick(r) * r.count, 0) / total;
+}
+
+/** Per-index weighted mean; indexes missing from a record are left out of its mean */
+function weightedMeans(records: TelemetryRecord[], pick: (r: TelemetryRecord) => number[]): number[] {
+  const length = Math.max(...records.map((r) => pick(r).length));
+  return Array.from({ length }, (_, i) => {
+    const having = records.filter((r) => i < pick(r).length);
+    const total = having.reduce((sum, r) => sum + r.count, 0);
+    return weightedMean(having, total, (r) => pick(r)[i]);
+  });
+}
+
+/**
+ * Merge records (raw or aggregate, any mix) into one aggregate at
+ * `resolution` starting at `time`. Records must be in time order.
+ */
+export function aggregate(records: TelemetryRecord[], resolution: number, time: number): TelemetryRecord {
+  const last = records[records.length - 1];
+  const total = records.reduce((sum, r) => sum + r.count, 0);
+  const ranges = records.map(rangeOf);
+  const span = (pick: (r: TelemetryRange) => [number, number]): [number, number] => [
+    Math.min(...ranges.map((r) => pick(r)[0])),
+    Math.max(...ranges.map((r) => pick(r)[1])),
+  ];
+
+  const protection = records.reduce((bits, r) => bits | r.hardware.protection, 0);
+  const protectionFlags = Object.fromEntries(
+    Object.keys(last.hardware.protectionFlags).map((key) => [
+      key,
+      records.some((r) => r.hardware.protectionFlags[key]),
+    ])
+  );
+  const cellVoltages = weightedMeans(records, (r) => r.cells.cellVoltages);
+  const temperatures = weightedMeans(records, (r) => r.hardware.temperatures);
+
+  return {
+    deviceId: last.deviceId,
+    sessionId: last.sessionId,
+    time,
+    resolution,
+    count: total,
+    hardware: {
+      ...last.hardware,
+      voltage: weightedMean(records, total, (r) => r.hardware.voltage),
+      current: weightedMean(records, total, (r) => r.hardware.current),
+      remainingCapacity: weightedMean(records, total, (r) => r.hardware.remainingCapacity),
+      rsoc: weightedMean(records, total, (r) => r.hardware.rsoc),
+      balanceLow: records.reduce((bits, r) => bits | r.hardware.balanceLow, 0),
+      balanceHigh: records.reduce((bits, r) => bits | r.hardware.balanceHigh, 0),
+      protection,
+      protectionFlags,
+      temperatures,
+      tempCount: temperatures.length,
+    },
+    cells: { cellVoltages, cellCount: cellVoltages.length },
+    range: {
+      voltage: span((r) => r.voltage),
+      current: span((r) => r.current),
+      cell: span((r) => r.cell),
+    },
+  };
+}
+
+/**
+ * Group time-ordered records into `resolution` buckets per session and
+ * merge each bucket.
+ */
+export function downsample(records: TelemetryRecord[], resolution: number): TelemetryRecord[] {
+  const buckets = new Map<string, TelemetryRecord[]>();
+  for (const record of records) {
+    const start = Math.floor(record.time / resolution) * resolution;
+    const key = `${record.sessionId}@${start}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(record);
+    else buckets.set(key, [record]);
+  }
+  return [...buckets.values()]
+    .map((bucket) => aggregate(bucket, resolution, Math.floor(bucket[0].time / resolution) * resolution))
+    .sort((a, b) => a.time - b.time);
+}
+
+// ── IndexedDB ────────────────────────────────────────────────────────────────
+
+const DB_NAME = 'jbd-telemetry';
+const DB_VERSION = 1;
+const RECORDS = 'records';
+const SESSIONS = 'sessions';
+const SERIES_INDEX = 'series';
+
+/** Appends between compaction passes (10 min at the 1 Hz poll rate) */
+const COMPACT_EVERY = 600;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export interface HistoryQuery {
+  deviceId: string;
+  /** Inclusive bounds, ms since epoch */
+  from: number;
+  to: number;
+  /** Restrict to one session */
+  sessionId?: string;
+  /** Downsample the result to at most about this many records */
+  maxPoints?: number;
+}
+
+/** Coarsest standard resolution that keeps `span` within `maxPoints` */
+function resolutionFor(span: number, maxPoints: number): number {
+  const target = span / maxPoints;
+  const steps = [1_000, 5_000, 15_000, MINUTE, 5 * MINUTE, QUARTER_HOUR, 60 * MINUTE, 6 * 60 * MINUTE, 24 * 60 * MINUTE];
+  return steps.find((step) => step >= target) ?? steps[steps.length - 1];
+}
+
+export class TelemetryHistory {
+  private db: Promise<IDBDatabase> | null = null;
+  private appendsSinceCompact = 0;
+  private compacting: Promise<void> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          const records = db.createObjectStore(RECORDS, { autoIncrement: true });
+          records.createIndex(SERIES_INDEX, ['deviceId', 'resolution', 'time']);
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      // Fold anything that aged out while the page was closed
+      this.db.then(() => this.compact()).catch(() => {});
+    }
+    return this.db;
+  }
+
+  /** Store one polled sample and update its session */
+  async append(
+    deviceId: string,
+    sessionId: string,
+    hardware: BMSHardwareInfo,
+    cells: BMSCellInfo,
+    time: number = Date.now()
+  ): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([RECORDS, SESSIONS], 'readwrite');
+    const record: TelemetryRecord = { deviceId, sessionId, time, resolution: RAW, count: 1, hardware, cells };
+    tx.objectStore(RECORDS).add(record);
+
+    const sessions = tx.objectStore(SESSIONS);
+    const existing = await request<TelemetrySession | undefined>(sessions.get(sessionId));
+    sessions.put({
+      id: sessionId,
+      deviceId,
+      startedAt: existing?.startedAt ?? time,
+      lastSampleAt: time,
+      samples: (existing?.samples ?? 0) + 1,
+    } satisfies TelemetrySession);
+    await complete(tx);
+
+    if (++this.appendsSinceCompact >= COMPACT_EVERY) {
+      this.appendsSinceCompact = 0;
+      this.compact().catch(() => {});
+    }
+  }
+
+  /**
+   * Records for a device between `from` and `to`, oldest first, at whatever
+   * resolution each stretch is stored at.
+   */
+  async query({ deviceId, from, to, sessionId, maxPoints }: HistoryQuery): Promise<TelemetryRecord[]> {
+    const db = await this.open();
+    const tx = db.transaction(RECORDS, 'readonly');
+    const index = tx.objectStore(RECORDS).index(SERIES_INDEX);
+    const series = await Promise.all(
+      [RAW, MINUTE, QUARTER_HOUR].map((resolution) =>
+        request(
+          index.getAll(IDBKeyRange.bound([deviceId, resolution, from], [deviceId, resolution, to])) as IDBRequest<
+            TelemetryRecord[]
+          >
+        )
+      )
+    );
+    let records = series.flat().sort((a, b) => a.time - b.time);
+    if (sessionId) records = records.filter((r) => r.sessionId === sessionId);
+    if (maxPoints && records.length > maxPoints) {
+      records = downsample(records, resolutionFor(to - from, maxPoints));
+    }
+    return records;
+  }
+
+  /** Devices with recorded history, most recently seen first */
+  async devices(): Promise<{ deviceId: string; lastSampleAt: number }[]> {
+    const latest = new Map<string, number>();
+    for (const session of await this.sessions()) {
+      latest.set(session.deviceId, Math.max(latest.get(session.deviceId) ?? 0, session.lastSampleAt));
+    }
+    return [...latest]
+      .map(([deviceId, lastSampleAt]) => ({ deviceId, lastSampleAt }))
+      .sort((a, b) => b.lastSampleAt - a.lastSampleAt);
+  }
+
+  /** Recording sessions, newest first, optionally for one device */
+  async sessions(deviceId?: string): Promise<TelemetrySession[]> {
+    const db = await this.open();
+    const all = await request(
+      db.transaction(SESSIONS, 'readonly').objectStore(SESSIONS).getAll() as IDBRequest<TelemetrySession[]>
+    );
+    return all
+      .filter((s) => deviceId === undefined || s.deviceId === deviceId)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /** Delete every record and session for a device */
+  async clear(deviceId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([RECORDS, SESSIONS], 'readwrite');
+    const index = tx.objectStore(RECORDS).index(SERIES_INDEX);
+    const keys = await request(
+      index.getAllKeys(IDBKeyRange.bound([deviceId, -Infinity, -Infinity], [deviceId, Infinity, Infinity]))
+    );
+    keys.forEach((key) => tx.objectStore(RECORDS).delete(key));
+    const sessions = await request(tx.objectStore(SESSIONS).getAll() as IDBRequest<TelemetrySession[]>);
+    sessions.filter((s) => s.deviceId === deviceId).forEach((s) => tx.objectStore(SESSIONS).delete(s.id));
+    await complete(tx);
+  }
+
+  /**
+   * Merge raw samples older than their retention into 1-minute aggregates,
+   * and 1-minute aggregates into 15-minute ones. Only whole buckets are
+   * merged, so a bucket is never split across resolutions.
+   */
+  compact(now: number = Date.now()): Promise<void> {
+    if (!this.compacting) {
+      this.compacting = (async () => {
+        for (const resolution of [RAW, MINUTE]) {
+          await this.compactResolution(resolution, now);
+        }
+      })().finally(() => {
+        this.compacting = null;
+      });
+    }
+    return this.compacting;
+  }
+
+  private async compactResolution(resolution: number, now: number): Promise<void> {
+    const next = NEXT_RESOLUTION[resolution];
+    const cutoff = Math.floor((now - RETENTION[resolution]) / next) * next;
+    // Look devices up first: awaiting another transaction would let this one commit
+    const devices = new Set((await this.sessions()).map((s) => s.deviceId));
+    const db = await this.open();
+    const tx = db.transaction(RECORDS, 'readwrite');
+    const store = tx.objectStore(RECORDS);
+    const index = store.index(SERIES_INDEX);
+
+    for (const deviceId of devices) {
+      const range = IDBKeyRange.bound([deviceId, resolution, -Infinity], [deviceId, resolution, cutoff], false, true);
+      const [records, keys] = await Promise.all([
+        request(index.getAll(range) as IDBRequest<TelemetryRecord[]>),
+        request(index.getAllKeys(range)),
+      ]);
+      if (records.length === 0) continue;
+      keys.forEach((key) => store.delete(key));
+      downsample(records, next).forEach((record) => store.add(record));
+    }
+    await complete(tx);
+  }
+}
+
+export const telemetryHistory = new TelemetryHistory();
@@ -0,0 +1,87 @@
+/**
+ * Device identity: the per-pack strings, serial number and manufacture date,
+ * plus the serial counter used when labelling packs in sequence.
+ */
+import type { BMSConfig } from './jbd-protocol';
+import { decodeDate, encodeDate } from './jbd-protocol';
+import { registerForKey } from './jbd-registers';
+
+export const IDENTITY_STRING_KEYS = ['manufacturerName', 'deviceName', 'barCode'] as const satisfies readonly (keyof BMSConfig)[];
+
+/** Printable ASCII; the BMS firmware has no notion of other encodings */
+const IDENTITY_CHARSET = /^[\x20-\x7e]*$/;
+
+/** Why `value` cannot be stored in the string register for `key`, or null */
+export function checkIdentityString(
+  key: (typeof IDENTITY_STRING_KEYS)[number],
+  value: string
+): string | null {
+  const def = registerForKey(key);
+  if (!IDENTITY_CHARSET.test(value)) return `${def.name} may only contain printable ASCII`;
+  if (def.maxLength !== undefined && value.length > def.maxLength) {
+    return `${def.name} is limited to ${def.maxLength} characters`;
+  }
+  return null;
+}
+
+// ── Manufacture date ─────────────────────────────────────────────────────────
+
+/** Packed date → "YYYY-MM-DD" for an <input type="date"> */
+export function dateToInput(raw: number): string {
+  const { year, month, day } = decodeDate(raw);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** "YYYY-MM-DD" → packed date, or null for impossible dates (2023-02-29) or ones the BMS cannot store */
+export function dateFromInput(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  try {
+    return encodeDate({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) });
+  } catch {
+    return null;
+  }
+}
+
+// ── Serial counter ───────────────────────────────────────────────────────────
+
+export interface SerialCounter {
+  enabled: boolean;
+  /** Serial most recently written to a pack */
+  lastWritten: number | null;
+}
+
+const SERIAL_STORAGE_KEY = 'jbd-serial-counter';
+
+export function loadSerialCounter(): SerialCounter {
+  try {
+    const stored = localStorage.getItem(SERIAL_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SerialCounter) : { enabled: false, lastWritten: null };
+  } catch {
+    return { enabled: false, lastWritten: null };
+  }
+}
+
+/**
+ * Throws when storage is full or unavailable: a counter that silently fails
+ * to advance would hand the next pack the same serial.
+ */
+export function saveSerialCounter(counter: SerialCounter): SerialCounter {
+  try {
+    localStorage.setItem(SERIAL_STORAGE_KEY, JSON.stringify(counter));
+  } catch {
+    throw new Error('Could not save the serial counter: browser storage is full or unavailable');
+  }
+  return counter;
+}
+
+/**
+ * Serial to propose for the connected pack: one past the last written,
+ * unless this pack is the one that was just written.
+ */
+export function proposedSerial(counter: SerialCounter, current: number): number {
+  if (!counter.enabled || counter.lastWritten === null || counter.lastWritten === current) {
+    return current;
+  }
+  return (counter.lastWritten + 1) & 0xffff;
+}
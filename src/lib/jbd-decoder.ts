@@ -4,6 +4,7 @@
 import {
   JBD_START,
   JBD_END,
+  JBDFrameParser,
   JBD_CMD_READ,
   JBD_CMD_WRITE,
   JBD_CMD_HWINFO,
@@ -14,13 +15,16 @@ import {
   JBD_REG_CONFIG,
   JBD_REG,
   PROTECTION_FLAGS,
+  FUNCTION_FLAGS,
+  NTC_FLAGS,
   calcCRC,
   decodeHardwareInfo,
   decodeCellInfo,
-  decodeTemp,
   decodeDate,
   decodeString,
+  decodeConfigString,
 } from './jbd-protocol';
+import { fieldsAtAddress, decodeField, formatField } from './jbd-registers';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -67,13 +71,16 @@ export function getRegisterName(reg: number): string {
   if (reg === JBD_CMD_CELLINFO) return 'CELLINFO (0x04)';
   if (reg === JBD_CMD_HWVER) return 'HWVER (0x05)';
   if (REG_NAMES[reg]) return `${REG_NAMES[reg]} (${hex(reg)})`;
+  if (reg > JBD_REG.CalCell1 && reg < JBD_REG.CalCell1 + 32) {
+    return `CalCell${reg - JBD_REG.CalCell1 + 1} (${hex(reg)})`;
+  }
   return hex(reg);
 }
 
-function formatBalanceBits(mask: number): string {
+function formatBalanceBits(mask: number, firstCell = 1): string {
   const cells: number[] = [];
   for (let i = 0; i < 16; i++) {
-    if ((mask & (1 << i)) !== 0) cells.push(i + 1);
+    if ((mask & (1 << i)) !== 0) cells.push(i + firstCell);
   }
   return `Cells: ${cells.join(', ')}`;
 }
@@ -82,36 +89,21 @@ function formatBalanceBits(mask: number): string {
 
 /**
  * Split a raw byte stream into individual JBD packets.
- * Packets start with 0xDD and end with 0x77. Uses the length field
- * at byte[3] to determine packet boundaries precisely.
+ * Uses JBDFrameParser, so leading noise and false 0xDD start bytes are
+ * skipped. Frames with a bad CRC and a trailing partial frame are still
+ * returned so the decoder can report what is wrong with them.
  */
 export function splitPackets(bytes: Uint8Array): Uint8Array[] {
   const packets: Uint8Array[] = [];
-  let i = 0;
-
-  while (i < bytes.length) {
-    if (bytes[i] !== JBD_START) {
-      i++;
-      continue;
-    }
-
-    if (i + 6 >= bytes.length) {
-      packets.push(bytes.slice(i));
-      break;
-    }
-
-    const len = bytes[i + 3];
-    const pktLen = 7 + len;
+  const parser = new JBDFrameParser();
+  parser.onEvent((event) => {
+    if (event.type !== 'discard') packets.push(event.frame);
+  });
 
-    if (i + pktLen <= bytes.length) {
-      packets.push(bytes.slice(i, i + pktLen));
-      i += pktLen;
-    } else {
-      packets.push(bytes.slice(i));
-      break;
-    }
-  }
+  parser.push(bytes);
 
+  const rest = parser.flush();
+  if (rest.length > 0) packets.push(rest);
   return packets;
 }
 
@@ -293,6 +285,31 @@ function decodeWriteData(reg: number, data: Uint8Array, fields: Field[]) {
     fields.push({ label: 'Discharge MOSFET', value: dischargeOff ? 'OFF' : 'ON' });
     return;
   }
+  if (reg === JBD_REG.Capacity && data.length === 2) {
+    fields.push({ label: 'Action', value: 'Set remaining capacity' });
+    fields.push({ label: 'Remaining Capacity', value: `${(readUint16(data, 0) / 100).toFixed(2)} Ah` });
+    return;
+  }
+  if (reg === JBD_REG.Balance && data.length === 4) {
+    const low = readUint16(data, 0);
+    const high = readUint16(data, 2);
+    if (low === 0 && high === 0) {
+      fields.push({ label: 'Action', value: 'Return to automatic balancing' });
+    } else {
+      fields.push({ label: 'Action', value: 'Force balancing' });
+      if (low) fields.push({ label: 'Cells 1–16', value: formatBalanceBits(low) });
+      if (high) fields.push({ label: 'Cells 17–32', value: formatBalanceBits(high, 17) });
+    }
+    return;
+  }
+  if (reg === JBD_REG.Reset) {
+    fields.push({ label: 'Action', value: 'Reboot BMS' });
+    return;
+  }
+  if (reg === JBD_REG.FRESET) {
+    fields.push({ label: 'Action', value: 'Factory reset (restore EEPROM defaults)' });
+    return;
+  }
 
   if (data.length === 2) {
     const val = readUint16(data, 0);
@@ -300,8 +317,8 @@ function decodeWriteData(reg: number, data: Uint8Array, fields: Field[]) {
     addConfigContext(reg, val, fields);
   }
 
-  if (reg === JBD_REG.ManufacturerName || reg === JBD_REG.DeviceName || reg === JBD_REG.BarCode) {
-    fields.push({ label: 'Text', value: decodeString(data) });
+  if (isStringRegister(reg)) {
+    fields.push({ label: 'Text', value: decodeConfigString(data) });
   }
 }
 
@@ -336,7 +353,7 @@ function decodeResponseData(reg: number, data: Uint8Array, fields: Field[]) {
       fields.push({
         label: 'Balance High',
         value: `0x${info.balanceHigh.toString(16).padStart(4, '0')}`,
-        detail: info.balanceHigh ? formatBalanceBits(info.balanceHigh) : 'None',
+        detail: info.balanceHigh ? formatBalanceBits(info.balanceHigh, 17) : 'None',
       });
 
       const active = PROTECTION_FLAGS.filter((f) => info.protectionFlags[f.key]);
@@ -375,8 +392,8 @@ function decodeResponseData(reg: number, data: Uint8Array, fields: Field[]) {
     return;
   }
 
-  if (reg === JBD_REG.ManufacturerName || reg === JBD_REG.DeviceName || reg === JBD_REG.BarCode) {
-    fields.push({ label: 'Text', value: decodeString(data) });
+  if (isStringRegister(reg)) {
+    fields.push({ label: 'Text', value: decodeConfigString(data) });
     return;
   }
 
@@ -390,38 +407,32 @@ function decodeResponseData(reg: number, data: Uint8Array, fields: Field[]) {
   fields.push({ label: 'Raw', value: hexArr(data) });
 }
 
-function addConfigContext(reg: number, val: number, fields: Field[]) {
-  const voltRegs: number[] = [
-    JBD_REG.PackOverVoltage, JBD_REG.PackOVRelease, JBD_REG.PackUnderVoltage, JBD_REG.PackUVRelease,
-  ];
-  const cellVoltRegs: number[] = [
-    JBD_REG.CellOverVoltage, JBD_REG.CellOVRelease, JBD_REG.CellUnderVoltage, JBD_REG.CellUVRelease,
-    JBD_REG.BalanceStartVoltage, JBD_REG.HardCellOverVoltage, JBD_REG.HardCellUnderVoltage,
-  ];
-  const capRegs: number[] = [JBD_REG.DesignCapacity, JBD_REG.CycleCapacity];
-  const tempRegs: number[] = [
-    JBD_REG.ChgOverTemp, JBD_REG.ChgOTRelease, JBD_REG.ChgLowTemp, JBD_REG.ChgUTRelease,
-    JBD_REG.DisOverTemp, JBD_REG.DsgOTRelease, JBD_REG.DisLowTemp, JBD_REG.DsgUTRelease,
-  ];
+function isStringRegister(reg: number): boolean {
+  return fieldsAtAddress(reg)[0]?.encoding === 'string';
+}
 
-  if (voltRegs.includes(reg)) {
-    fields.push({ label: 'As Pack Voltage', value: `${(val / 100).toFixed(2)} V` });
-  } else if (cellVoltRegs.includes(reg)) {
-    fields.push({ label: 'As Cell Voltage', value: `${(val / 1000).toFixed(3)} V` });
-  } else if (capRegs.includes(reg)) {
-    fields.push({ label: 'As Capacity', value: `${(val / 100).toFixed(2)} Ah` });
-  } else if (tempRegs.includes(reg)) {
-    fields.push({ label: 'As Temperature', value: `${decodeTemp(val).toFixed(1)} °C` });
-  } else if (reg === JBD_REG.ManufactureDate) {
+function addConfigContext(reg: number, val: number, fields: Field[]) {
+  for (const def of fieldsAtAddress(reg)) {
+    if (def.encoding === 'string') continue;
+    fields.push({ label: def.name, value: formatField(def, decodeField(def, val)) });
+  }
+  if (reg === JBD_REG.BatteryConfig || reg === JBD_REG.NtcConfig) {
+    const flags = reg === JBD_REG.BatteryConfig ? FUNCTION_FLAGS : NTC_FLAGS;
+    const enabled = flags.filter((f) => (val & (1 << f.bit)) !== 0).map((f) => f.label);
+    fields.push({ label: 'Enabled', value: enabled.length > 0 ? enabled.join(', ') : 'None' });
+  }
+  if (reg === JBD_REG.CalIdleCurrent) {
+    fields.push({ label: 'Calibration', value: 'Zero current offset' });
+  }
+  if (reg === JBD_REG.CalChargeCurrent || reg === JBD_REG.CalDischargeCurrent) {
+    const direction = reg === JBD_REG.CalChargeCurrent ? 'Charge' : 'Discharge';
+    fields.push({ label: `${direction} Current Reference`, value: `${(val / 100).toFixed(2)} A` });
+  }
+  if (reg >= JBD_REG.CalCell1 && reg < JBD_REG.CalCell1 + 32) {
+    fields.push({ label: `Cell ${reg - JBD_REG.CalCell1 + 1} Reference`, value: `${val} mV` });
+  }
+  if (reg === JBD_REG.ManufactureDate) {
     const d = decodeDate(val);
     fields.push({ label: 'As Date', value: `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}` });
-  } else if (reg === JBD_REG.FullChargeVol || reg === JBD_REG.ChargeEndVol) {
-    fields.push({ label: 'As Voltage', value: `${(val / 100).toFixed(2)} V` });
-  } else if (reg === JBD_REG.OverChargeCurrent || reg === JBD_REG.OverDisCurrent) {
-    fields.push({ label: 'As Current', value: `${(val / 100).toFixed(2)} A` });
-  } else if (reg === JBD_REG.SenseResistor) {
-    fields.push({ label: 'As Resistance', value: `${val} mΩ` });
-  } else if (reg === JBD_REG.BalanceWindow) {
-    fields.push({ label: 'As Voltage', value: `${val} mV` });
   }
 }
@@ -87,6 +87,11 @@ export const JBD_REG = {
   ManufacturerName: 0xa0,
   DeviceName: 0xa1,
   BarCode: 0xa2,
+  // Calibration (write-only): current in 10 mA, cells in mV, cell n at CalCell1 + n − 1
+  CalIdleCurrent: 0xad,
+  CalChargeCurrent: 0xae,
+  CalDischargeCurrent: 0xaf,
+  CalCell1: 0xb0,
   Capacity: 0xe0,
   Mosfet: 0xe1,
   Balance: 0xe2,
@@ -113,16 +118,69 @@ export const PROTECTION_FLAGS = [
 
 // Function config bit names
 export const FUNCTION_FLAGS = [
-  { bit: 0, key: 'switch', label: 'Switch' },
-  { bit: 1, key: 'scrl', label: 'SCRL' },
-  { bit: 2, key: 'balanceEn', label: 'Balance Enable' },
-  { bit: 3, key: 'chgBalance', label: 'Charge Balance' },
-  { bit: 4, key: 'ledEn', label: 'LED Enable' },
-  { bit: 5, key: 'ledNum', label: 'LED Number' },
-  { bit: 6, key: 'rtc', label: 'RTC' },
-  { bit: 7, key: 'edv', label: 'EDV' },
+  {
+    bit: 0,
+    key: 'switch',
+    label: 'Switch',
+    description: 'Honour the external switch input; the MOSFETs stay off while it is open.',
+  },
+  {
+    bit: 1,
+    key: 'scrl',
+    label: 'SCRL',
+    description: 'Release short-circuit protection automatically once the load is removed.',
+  },
+  {
+    bit: 2,
+    key: 'balanceEn',
+    label: 'Balance Enable',
+    description: 'Bleed high cells above the balance start voltage when they exceed the window.',
+  },
+  {
+    bit: 3,
+    key: 'chgBalance',
+    label: 'Charge Balance',
+    description: 'Only balance while charging; otherwise balancing also runs at rest.',
+  },
+  {
+    bit: 4,
+    key: 'ledEn',
+    label: 'LED Enable',
+    description: 'Drive the SOC indicator LEDs on the protection board.',
+  },
+  {
+    bit: 5,
+    key: 'ledNum',
+    label: 'LED Number',
+    description: 'Indicator has 5 LEDs instead of 4.',
+  },
+  {
+    bit: 6,
+    key: 'rtc',
+    label: 'RTC',
+    description: 'Keep the real-time clock running (boards with an RTC crystal only).',
+  },
+  {
+    bit: 7,
+    key: 'edv',
+    label: 'EDV',
+    description: 'Recalibrate SOC to 0% when a cell reaches the end-of-discharge voltage.',
+  },
 ] as const;
 
+// NTC enable bits; the BMS reports only enabled sensors, in bit order
+export const NTC_FLAGS = Array.from({ length: 8 }, (_, bit) => ({
+  bit,
+  key: `ntc${bit + 1}`,
+  label: `NTC ${bit + 1}`,
+  description: `Temperature input ${bit + 1}. Disabled sensors are not reported and take no part in temperature protection.`,
+}));
+
+/** Labels of the enabled NTCs, matching the order of BMSHardwareInfo.temperatures */
+export function enabledNtcLabels(ntcConfig: number): string[] {
+  return NTC_FLAGS.filter((f) => (ntcConfig & (1 << f.bit)) !== 0).map((f) => f.label);
+}
+
 // ── Types ────────────────────────────────────────────────────────────────────
 
 export interface BMSHardwareInfo {
@@ -151,13 +209,24 @@ export interface BMSCellInfo {
   cellCount: number;
 }
 
+/** Whether cell `index` (0-based) is balancing; cells 17+ are in balanceHigh */
+export function isCellBalancing(hardware: Pick<BMSHardwareInfo, 'balanceLow' | 'balanceHigh'>, index: number): boolean {
+  return index < 16
+    ? (hardware.balanceLow & (1 << index)) !== 0
+    : (hardware.balanceHigh & (1 << (index - 16))) !== 0;
+}
+
+/**
+ * Decoded EEPROM configuration, in engineering units. Field encodings and
+ * scales are defined once in jbd-registers.ts.
+ */
 export interface BMSConfig {
-  designCapacity: number;
-  cycleCapacity: number;
-  fullChargeVol: number;
-  chargeEndVol: number;
-  dischargingRate: number;
-  chgOverTemp: number;
+  designCapacity: number; // Ah
+  cycleCapacity: number; // Ah
+  fullChargeVol: number; // mV per cell at 100% SOC
+  chargeEndVol: number; // mV per cell at 0% SOC
+  dischargingRate: number; // % self-discharge
+  chgOverTemp: number; // °C
   chgOTRelease: number;
   chgLowTemp: number;
   chgUTRelease: number;
@@ -165,29 +234,65 @@ export interface BMSConfig {
   dsgOTRelease: number;
   disLowTemp: number;
   dsgUTRelease: number;
-  packOverVoltage: number;
+  packOverVoltage: number; // V
   packOVRelease: number;
   packUnderVoltage: number;
   packUVRelease: number;
-  cellOverVoltage: number;
+  cellOverVoltage: number; // mV
   cellOVRelease: number;
   cellUnderVoltage: number;
   cellUVRelease: number;
-  overChargeCurrent: number;
-  overDisCurrent: number;
-  balanceStartVoltage: number;
-  balanceWindow: number;
-  senseResistor: number;
-  batteryConfig: number;
-  ntcConfig: number;
-  packNum: number;
-  fetCtrlTime: number;
-  ledDispTime: number;
-  hardCellOverVoltage: number;
-  hardCellUnderVoltage: number;
+  overChargeCurrent: number; // A
+  overDisCurrent: number; // A
+  balanceStartVoltage: number; // mV
+  balanceWindow: number; // mV
+  senseResistor: number; // mΩ
+  batteryConfig: number; // FUNCTION_FLAGS bitmask
+  ntcConfig: number; // NTC enable bitmask
+  packNum: number; // cells in series
+  fetCtrlTime: number; // s
+  ledDispTime: number; // s
+  hardCellOverVoltage: number; // mV
+  hardCellUnderVoltage: number; // mV
+  // Open-circuit voltage at each SOC point, mV
+  voltageCap100: number;
+  voltageCap90: number;
+  voltageCap80: number;
+  voltageCap70: number;
+  voltageCap60: number;
+  voltageCap50: number;
+  voltageCap40: number;
+  voltageCap30: number;
+  voltageCap20: number;
+  voltageCap10: number;
+  // Short circuit / secondary discharge overcurrent (reg 0x38)
+  scDsgOC2X2: boolean; // doubles both thresholds
+  scThreshold: number; // mV across the sense resistor
+  scDelay: number; // µs
+  dsgOC2Threshold: number; // mV across the sense resistor
+  dsgOC2Delay: number; // ms
+  // Hard cell limit delays (reg 0x39)
+  hardCellUVDelay: number; // s
+  hardCellOVDelay: number; // s
+  scRelease: number; // s
+  // Protection delays, s (high byte / low byte pairs)
+  chgUTDelay: number;
+  chgOTDelay: number;
+  dsgUTDelay: number;
+  dsgOTDelay: number;
+  packUVDelay: number;
+  packOVDelay: number;
+  cellUVDelay: number;
+  cellOVDelay: number;
+  chgOCDelay: number;
+  chgOCRelease: number;
+  dsgOCDelay: number;
+  dsgOCRelease: number;
+  gpsVoltage: number; // mV
+  gpsTime: number; // s
   serialNumber: number;
   cycleCount: number;
-  manufactureDate: number;
+  manufactureDate: number; // packed, see decodeDate
   manufacturerName: string;
   deviceName: string;
   barCode: string;
@@ -257,47 +362,163 @@ export interface ParsedPacket {
   data: Uint8Array;
 }
 
+/** Interpret a complete response frame (DD REG STATUS LEN ... 77) */
+export function toParsedPacket(frame: Uint8Array): ParsedPacket {
+  const len = frame[3];
+  return {
+    register: frame[1],
+    status: frame[2],
+    data: frame.slice(4, 4 + len),
+  };
+}
+
+/**
+ * Parse the first valid response frame found in a buffer.
+ * Noise and false start bytes before it are skipped.
+ */
 export function parseResponsePacket(
   buffer: Uint8Array
 ): ParsedPacket | null {
-  // Find start byte
-  let start = -1;
-  for (let i = 0; i < buffer.length; i++) {
-    if (buffer[i] === JBD_START) {
-      start = i;
-      break;
-    }
+  const [frame] = new JBDFrameParser().push(buffer);
+  return frame ? toParsedPacket(frame) : null;
+}
+
+// ── Streaming Frame Parser ───────────────────────────────────────────────────
+
+export type FrameParserEvent =
+  | { type: 'frame'; frame: Uint8Array }
+  | { type: 'discard'; bytes: Uint8Array; reason: 'noise' | 'false-start' }
+  | { type: 'crc-error'; frame: Uint8Array; expected: number; actual: number };
+
+export type FrameParserListener = (event: FrameParserEvent) => void;
+
+/** Frame layout checks shared by requests and responses */
+function frameLength(buf: Uint8Array, at: number): number {
+  return 7 + buf[at + 3];
+}
+
+function frameCRC(buf: Uint8Array, at: number): { expected: number; actual: number } {
+  const len = buf[at + 3];
+  return {
+    expected: calcCRC(buf.subarray(at + 2, at + 4 + len)),
+    actual: (buf[at + 4 + len] << 8) | buf[at + 5 + len],
+  };
+}
+
+function isCompleteFrame(buf: Uint8Array, at: number): boolean {
+  if (buf[at] !== JBD_START || buf.length - at < 7) return false;
+  const total = frameLength(buf, at);
+  if (buf.length - at < total || buf[at + total - 1] !== JBD_END) return false;
+  const { expected, actual } = frameCRC(buf, at);
+  return expected === actual;
+}
+
+/**
+ * Incremental JBD frame parser. Feed it bytes as they arrive; it emits each
+ * complete frame once, resynchronising past line noise and false 0xDD
+ * start bytes. Works for both request (DD A5/5A ...) and response frames,
+ * since both share the same length, CRC and end-byte layout.
+ */
+export class JBDFrameParser {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private listeners: Set<FrameParserListener> = new Set();
+
+  /** Subscribe to frames, discards and CRC failures. Returns unsubscribe function. */
+  onEvent(listener: FrameParserListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
-  if (start === -1) return null;
 
-  // Minimum packet: DD CMD REG LEN CRC_H CRC_L 77 = 7 bytes
-  if (buffer.length - start < 7) return null;
+  private emit(event: FrameParserEvent) {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
 
-  const register = buffer[start + 1];
-  const status = buffer[start + 2];
-  const len = buffer[start + 3];
+  /** Bytes held while waiting for the rest of a frame */
+  get pendingLength(): number {
+    return this.buffer.length;
+  }
 
-  if (buffer.length - start < 7 + len) return null;
+  /** Append bytes and return any complete, CRC-valid frames */
+  push(chunk: Uint8Array): Uint8Array[] {
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer, 0);
+    merged.set(chunk, this.buffer.length);
+    let buf = merged;
+    const frames: Uint8Array[] = [];
+
+    const discard = (count: number, reason: 'noise' | 'false-start') => {
+      this.emit({ type: 'discard', bytes: buf.slice(0, count), reason });
+      buf = buf.subarray(count);
+    };
+
+    while (buf.length > 0) {
+      const start = buf.indexOf(JBD_START);
+      if (start === -1) {
+        discard(buf.length, 'noise');
+        break;
+      }
+      if (start > 0) discard(start, 'noise');
+
+      // Need at least the header to know the frame length
+      if (buf.length < 4) break;
+      const total = frameLength(buf, 0);
+
+      if (buf.length < total) {
+        // Still incomplete — unless a later start byte already holds a
+        // complete frame, in which case this one was a false start.
+        const later = this.findCompleteFrame(buf, 1);
+        if (later === -1) break;
+        discard(later, 'false-start');
+        continue;
+      }
+
+      if (buf[total - 1] !== JBD_END) {
+        discard(1, 'false-start');
+        continue;
+      }
+
+      const { expected, actual } = frameCRC(buf, 0);
+      if (expected !== actual) {
+        // A valid frame hiding inside means this start byte was noise
+        const inner = this.findCompleteFrame(buf.subarray(0, total), 1);
+        if (inner !== -1) {
+          discard(inner, 'false-start');
+          continue;
+        }
+        this.emit({ type: 'crc-error', frame: buf.slice(0, total), expected, actual });
+        buf = buf.subarray(total);
+        continue;
+      }
+
+      const frame = buf.slice(0, total);
+      frames.push(frame);
+      this.emit({ type: 'frame', frame });
+      buf = buf.subarray(total);
+    }
 
-  const data = buffer.slice(start + 4, start + 4 + len);
-  const crcHi = buffer[start + 4 + len];
-  const crcLo = buffer[start + 5 + len];
-  const endByte = buffer[start + 6 + len];
+    this.buffer = buf.slice();
+    return frames;
+  }
 
-  if (endByte !== JBD_END) return null;
+  /** Return and clear any buffered partial frame */
+  flush(): Uint8Array {
+    const rest = this.buffer;
+    this.buffer = new Uint8Array(0);
+    return rest;
+  }
 
-  // Verify CRC — covers [STATUS, LEN, DATA...] (buf[2..] in C code)
-  const crcPayload = buffer.slice(start + 2, start + 4 + len);
-  const expectedCrc = calcCRC(crcPayload);
-  const actualCrc = (crcHi << 8) | crcLo;
-  if (expectedCrc !== actualCrc) {
-    console.warn(
-      `CRC mismatch: expected 0x${expectedCrc.toString(16)}, got 0x${actualCrc.toString(16)}`
-    );
-    return null;
+  reset() {
+    this.buffer = new Uint8Array(0);
   }
 
-  return { register, status, data };
+  private findCompleteFrame(buf: Uint8Array, from: number): number {
+    for (let i = buf.indexOf(JBD_START, from); i !== -1; i = buf.indexOf(JBD_START, i + 1)) {
+      if (isCompleteFrame(buf, i)) return i;
+    }
+    return -1;
+  }
 }
 
 // ── Data Decoders ────────────────────────────────────────────────────────────
@@ -331,6 +552,20 @@ export function decodeDate(raw: number): {
   };
 }
 
+/** Days in `month` (1–12) of `year`, counting leap years */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Pack a date as (year − 2000) << 9 | month << 5 | day; years 2000–2127, real calendar dates only */
+export function encodeDate(date: { year: number; month: number; day: number }): number {
+  const { year, month, day } = date;
+  if (year < 2000 || year > 2127 || month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    throw new RangeError(`Date ${year}-${month}-${day} cannot be stored by the BMS`);
+  }
+  return ((year - 2000) << 9) | (month << 5) | day;
+}
+
 export function decodeHardwareInfo(data: Uint8Array): BMSHardwareInfo {
   const voltage = readUint16(data, 0) / 100;
   const current = readInt16(data, 2) / 100;
@@ -393,6 +628,110 @@ export function decodeString(data: Uint8Array): string {
   return new TextDecoder().decode(data);
 }
 
+/** EEPROM string registers (0xA0–0xA2) hold a length byte, then the ASCII text */
+export function encodeConfigString(text: string): Uint8Array {
+  const bytes = new TextEncoder().encode(text).subarray(0, 0xff);
+  return new Uint8Array([bytes.length, ...bytes]);
+}
+
+export function decodeConfigString(data: Uint8Array): string {
+  if (data.length === 0) return '';
+  return decodeString(data.subarray(1, 1 + Math.min(data[0], data.length - 1)));
+}
+
+// ── Packed Config Registers ──────────────────────────────────────────────────
+
+/** Short-circuit thresholds selectable in reg 0x38 bits 10:8, mV (×2 when X2 set) */
+export const SC_THRESHOLDS_MV = [22, 33, 44, 56, 67, 78, 89, 100] as const;
+/** Short-circuit delays, reg 0x38 bits 12:11, µs */
+export const SC_DELAYS_US = [70, 100, 200, 400] as const;
+/** Secondary discharge OC thresholds, reg 0x38 bits 3:0, mV (×2 when X2 set) */
+export const DSG_OC2_THRESHOLDS_MV = [
+  8, 11, 14, 17, 19, 22, 25, 28, 31, 33, 36, 39, 42, 44, 47, 50,
+] as const;
+/** Secondary discharge OC delays, reg 0x38 bits 7:4, ms */
+export const DSG_OC2_DELAYS_MS = [8, 20, 40, 80, 160, 320, 640, 1280] as const;
+/** Hard cell undervoltage delays, reg 0x39 bits 15:14, s */
+export const HARD_CELL_UV_DELAYS_S = [1, 4, 8, 16] as const;
+/** Hard cell overvoltage delays, reg 0x39 bits 13:12, s */
+export const HARD_CELL_OV_DELAYS_S = [1, 2, 4, 8] as const;
+
+/** Index of the table entry closest to `value` */
+function nearestIndex(table: readonly number[], value: number): number {
+  let best = 0;
+  for (let i = 1; i < table.length; i++) {
+    if (Math.abs(table[i] - value) < Math.abs(table[best] - value)) best = i;
+  }
+  return best;
+}
+
+export interface DoubleOCSC {
+  scDsgOC2X2: boolean;
+  scThreshold: number;
+  scDelay: number;
+  dsgOC2Threshold: number;
+  dsgOC2Delay: number;
+}
+
+/** Bits of reg 0x38 decoded below; the rest are left as the BMS has them */
+export const DOUBLE_OCSC_MASK = 0x9f7f;
+
+export function decodeDoubleOCSC(raw: number): DoubleOCSC {
+  const x2 = (raw & 0x8000) !== 0;
+  const mult = x2 ? 2 : 1;
+  return {
+    scDsgOC2X2: x2,
+    scThreshold: SC_THRESHOLDS_MV[(raw >> 8) & 0x07] * mult,
+    scDelay: SC_DELAYS_US[(raw >> 11) & 0x03],
+    dsgOC2Threshold: DSG_OC2_THRESHOLDS_MV[raw & 0x0f] * mult,
+    dsgOC2Delay: DSG_OC2_DELAYS_MS[(raw >> 4) & 0x07],
+  };
+}
+
+/** Encode to reg 0x38, snapping each value to the nearest selectable step */
+export function encodeDoubleOCSC(v: DoubleOCSC): number {
+  const mult = v.scDsgOC2X2 ? 2 : 1;
+  const sc = nearestIndex(SC_THRESHOLDS_MV, v.scThreshold / mult);
+  const scDelay = nearestIndex(SC_DELAYS_US, v.scDelay);
+  const oc2 = nearestIndex(DSG_OC2_THRESHOLDS_MV, v.dsgOC2Threshold / mult);
+  const oc2Delay = nearestIndex(DSG_OC2_DELAYS_MS, v.dsgOC2Delay);
+  return (
+    (v.scDsgOC2X2 ? 0x8000 : 0) | (scDelay << 11) | (sc << 8) | (oc2Delay << 4) | oc2
+  );
+}
+
+export interface HardCellDelays {
+  hardCellUVDelay: number;
+  hardCellOVDelay: number;
+  scRelease: number;
+}
+
+/** Bits of reg 0x39 decoded below */
+export const HARD_CELL_DELAYS_MASK = 0xf0ff;
+
+export function decodeHardCellDelays(raw: number): HardCellDelays {
+  return {
+    hardCellUVDelay: HARD_CELL_UV_DELAYS_S[(raw >> 14) & 0x03],
+    hardCellOVDelay: HARD_CELL_OV_DELAYS_S[(raw >> 12) & 0x03],
+    scRelease: raw & 0xff,
+  };
+}
+
+export function encodeHardCellDelays(v: HardCellDelays): number {
+  const uv = nearestIndex(HARD_CELL_UV_DELAYS_S, v.hardCellUVDelay);
+  const ov = nearestIndex(HARD_CELL_OV_DELAYS_S, v.hardCellOVDelay);
+  return (uv << 14) | (ov << 12) | (Math.round(v.scRelease) & 0xff);
+}
+
+/** Split a register holding two one-byte values into [high, low] */
+export function splitBytes(raw: number): [number, number] {
+  return [(raw >> 8) & 0xff, raw & 0xff];
+}
+
+export function joinBytes(high: number, low: number): number {
+  return ((Math.round(high) & 0xff) << 8) | (Math.round(low) & 0xff);
+}
+
 // ── EEPROM Helpers ───────────────────────────────────────────────────────────
 
 export function buildEEPROMOpen(): Uint8Array {
@@ -413,6 +752,35 @@ export function buildMosfetControl(
   return buildWritePacket(JBD_CMD_MOS, new Uint8Array([0x00, val]));
 }
 
+/** Set remaining capacity, Ah (10 mAh resolution); the BMS derives RSOC from it */
+export function buildCapacityWrite(remainingAh: number): Uint8Array {
+  return buildWriteUint16(JBD_REG.Capacity, Math.round(remainingAh * 100));
+}
+
+/**
+ * Force balancing on the cells in `mask` (bit 0 = cell 1), or hand control
+ * back to automatic balancing with 0. Sent as the low then high word, the
+ * same split as HWINFO's balance fields.
+ */
+export function buildBalanceControl(mask: number): Uint8Array {
+  const low = mask & 0xffff;
+  const high = (mask >>> 16) & 0xffff;
+  return buildWritePacket(
+    JBD_REG.Balance,
+    new Uint8Array([low >> 8, low & 0xff, high >> 8, high & 0xff])
+  );
+}
+
+/** Restart the BMS firmware; EEPROM contents are kept */
+export function buildReset(): Uint8Array {
+  return buildWriteUint16(JBD_REG.Reset, 0x0000);
+}
+
+/** Restore the factory EEPROM defaults */
+export function buildFactoryReset(): Uint8Array {
+  return buildWriteUint16(JBD_REG.FRESET, 0x0000);
+}
+
 export function buildWriteUint16(
   register: number,
   value: number
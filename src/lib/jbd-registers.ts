@@ -0,0 +1,367 @@
+/**
+ * Declarative schema for the JBD EEPROM configuration registers.
+ *
+ * Every register's address, encoding, scale, unit, limits and grouping is
+ * defined here once. The BMSConfig reader in serial.ts, the decoder
+ * annotations and the ConfigPanel form are all generated from this table.
+ */
+import {
+  JBD_REG,
+  SC_THRESHOLDS_MV,
+  SC_DELAYS_US,
+  DSG_OC2_THRESHOLDS_MV,
+  DSG_OC2_DELAYS_MS,
+  HARD_CELL_UV_DELAYS_S,
+  HARD_CELL_OV_DELAYS_S,
+  decodeTemp,
+  encodeTemp,
+  DOUBLE_OCSC_MASK,
+  HARD_CELL_DELAYS_MASK,
+  decodeDoubleOCSC,
+  encodeDoubleOCSC,
+  decodeHardCellDelays,
+  encodeHardCellDelays,
+  splitBytes,
+  joinBytes,
+  type BMSConfig,
+  type DoubleOCSC,
+  type HardCellDelays,
+} from './jbd-protocol';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type ConfigValue = BMSConfig[keyof BMSConfig];
+
+/** One register to write: a word, or text for string registers */
+export interface RegisterWrite {
+  address: number;
+  value: number | string;
+}
+
+/**
+ * How a field maps to its register:
+ * - uint16: raw × scale
+ * - temp: 0.1 K offset encoding
+ * - string: length-prefixed ASCII
+ * - packed: one of several fields sharing a register, via `codec`
+ */
+export type RegisterEncoding = 'uint16' | 'temp' | 'string' | 'packed';
+
+export interface FieldCodec {
+  /** Bits of the register this codec writes */
+  mask: number;
+  decode(raw: number): number | boolean;
+  /** Merge `value` into `raw`, leaving the other fields' bits untouched */
+  encode(raw: number, value: number | boolean): number;
+}
+
+interface RegisterDefBase {
+  key: keyof BMSConfig;
+  address: number;
+  name: string;
+  group: string;
+  /** Engineering units per raw count (uint16 only). Defaults to 1. */
+  scale?: number;
+  unit: string;
+  /** Limits in engineering units */
+  min?: number;
+  max?: number;
+  writable: boolean;
+  /** Longest value the BMS stores, in characters (string only) */
+  maxLength?: number;
+  /** Selectable steps, for fields the BMS only accepts from a fixed table */
+  options?: (config: BMSConfig) => readonly number[];
+}
+
+/** A field sharing its register with others; only packed fields carry a codec */
+export interface PackedRegisterDef extends RegisterDefBase {
+  encoding: 'packed';
+  codec: FieldCodec;
+}
+
+export type RegisterDef =
+  | (RegisterDefBase & { encoding: Exclude<RegisterEncoding, 'packed'>; codec?: never })
+  | PackedRegisterDef;
+
+// ── Packed field codecs ──────────────────────────────────────────────────────
+
+function highByte(): FieldCodec {
+  return {
+    mask: 0xff00,
+    decode: (raw) => splitBytes(raw)[0],
+    encode: (raw, value) => joinBytes(Number(value), splitBytes(raw)[1]),
+  };
+}
+
+function lowByte(): FieldCodec {
+  return {
+    mask: 0x00ff,
+    decode: (raw) => splitBytes(raw)[1],
+    encode: (raw, value) => joinBytes(splitBytes(raw)[0], Number(value)),
+  };
+}
+
+function doubleOCSC(key: keyof DoubleOCSC): FieldCodec {
+  return {
+    mask: DOUBLE_OCSC_MASK,
+    decode: (raw) => decodeDoubleOCSC(raw)[key],
+    encode: (raw, value) =>
+      (raw & ~DOUBLE_OCSC_MASK) | encodeDoubleOCSC({ ...decodeDoubleOCSC(raw), [key]: value }),
+  };
+}
+
+function hardCellDelays(key: keyof HardCellDelays): FieldCodec {
+  return {
+    mask: HARD_CELL_DELAYS_MASK,
+    decode: (raw) => decodeHardCellDelays(raw)[key],
+    encode: (raw, value) =>
+      (raw & ~HARD_CELL_DELAYS_MASK) |
+      encodeHardCellDelays({ ...decodeHardCellDelays(raw), [key]: value }),
+  };
+}
+
+/** Threshold steps double when the SC/OC2 ×2 bit is set */
+const scaledBy = (table: readonly number[]) => (config: BMSConfig) =>
+  config.scDsgOC2X2 ? table.map((v) => v * 2) : table;
+
+// ── Schema ───────────────────────────────────────────────────────────────────
+
+const PACK_V = { encoding: 'uint16', scale: 0.01, unit: 'V', min: 0, max: 655.35 } as const;
+const CELL_MV = { encoding: 'uint16', unit: 'mV', min: 1000, max: 5000 } as const;
+const TEMP = { encoding: 'temp', unit: '°C', min: -40, max: 120 } as const;
+const CURRENT = { encoding: 'uint16', scale: 0.01, unit: 'A', min: 0, max: 655.35 } as const;
+const DELAY = { encoding: 'packed', unit: 's', min: 0, max: 255 } as const;
+
+export const CONFIG_REGISTERS = [
+  // Capacity
+  { key: 'designCapacity', address: JBD_REG.DesignCapacity, name: 'Design Capacity', group: 'Capacity', encoding: 'uint16', scale: 0.01, unit: 'Ah', min: 0, max: 655.35, writable: true },
+  { key: 'cycleCapacity', address: JBD_REG.CycleCapacity, name: 'Cycle Capacity', group: 'Capacity', encoding: 'uint16', scale: 0.01, unit: 'Ah', min: 0, max: 655.35, writable: true },
+  { key: 'fullChargeVol', address: JBD_REG.FullChargeVol, name: 'Full Charge Voltage', group: 'Capacity', ...CELL_MV, writable: true },
+  { key: 'chargeEndVol', address: JBD_REG.ChargeEndVol, name: 'Charge End Voltage', group: 'Capacity', ...CELL_MV, writable: true },
+  { key: 'dischargingRate', address: JBD_REG.DischargingRate, name: 'Self-Discharge Rate', group: 'Capacity', encoding: 'uint16', scale: 0.1, unit: '%', min: 0, max: 100, writable: true },
+
+  // Cell voltage protection
+  { key: 'cellOverVoltage', address: JBD_REG.CellOverVoltage, name: 'Cell Overvoltage', group: 'Cell Voltage', ...CELL_MV, writable: true },
+  { key: 'cellOVRelease', address: JBD_REG.CellOVRelease, name: 'Cell OV Release', group: 'Cell Voltage', ...CELL_MV, writable: true },
+  { key: 'cellUnderVoltage', address: JBD_REG.CellUnderVoltage, name: 'Cell Undervoltage', group: 'Cell Voltage', ...CELL_MV, writable: true },
+  { key: 'cellUVRelease', address: JBD_REG.CellUVRelease, name: 'Cell UV Release', group: 'Cell Voltage', ...CELL_MV, writable: true },
+  { key: 'hardCellOverVoltage', address: JBD_REG.HardCellOverVoltage, name: 'Hard Cell OV', group: 'Cell Voltage', ...CELL_MV, writable: true },
+  { key: 'hardCellUnderVoltage', address: JBD_REG.HardCellUnderVoltage, name: 'Hard Cell UV', group: 'Cell Voltage', ...CELL_MV, writable: true },
+
+  // Pack voltage protection
+  { key: 'packOverVoltage', address: JBD_REG.PackOverVoltage, name: 'Pack Overvoltage', group: 'Pack Voltage', ...PACK_V, writable: true },
+  { key: 'packOVRelease', address: JBD_REG.PackOVRelease, name: 'Pack OV Release', group: 'Pack Voltage', ...PACK_V, writable: true },
+  { key: 'packUnderVoltage', address: JBD_REG.PackUnderVoltage, name: 'Pack Undervoltage', group: 'Pack Voltage', ...PACK_V, writable: true },
+  { key: 'packUVRelease', address: JBD_REG.PackUVRelease, name: 'Pack UV Release', group: 'Pack Voltage', ...PACK_V, writable: true },
+
+  // Current protection
+  { key: 'overChargeCurrent', address: JBD_REG.OverChargeCurrent, name: 'Charge Overcurrent', group: 'Current', ...CURRENT, writable: true },
+  { key: 'overDisCurrent', address: JBD_REG.OverDisCurrent, name: 'Discharge Overcurrent', group: 'Current', ...CURRENT, writable: true },
+
+  // Short circuit / secondary overcurrent (reg 0x38), thresholds across the sense resistor
+  { key: 'scDsgOC2X2', address: JBD_REG.DoubleOCSC, name: 'SC / OC2 Thresholds ×2', group: 'Short Circuit', encoding: 'packed', unit: '', writable: true, codec: doubleOCSC('scDsgOC2X2') },
+  { key: 'scThreshold', address: JBD_REG.DoubleOCSC, name: 'Short Circuit Threshold', group: 'Short Circuit', encoding: 'packed', unit: 'mV', writable: true, codec: doubleOCSC('scThreshold'), options: scaledBy(SC_THRESHOLDS_MV) },
+  { key: 'scDelay', address: JBD_REG.DoubleOCSC, name: 'Short Circuit Delay', group: 'Short Circuit', encoding: 'packed', unit: 'µs', writable: true, codec: doubleOCSC('scDelay'), options: () => SC_DELAYS_US },
+  { key: 'scRelease', address: JBD_REG.DelayHCOVP, name: 'Short Circuit Release', group: 'Short Circuit', ...DELAY, writable: true, codec: hardCellDelays('scRelease') },
+  { key: 'dsgOC2Threshold', address: JBD_REG.DoubleOCSC, name: 'Discharge OC2 Threshold', group: 'Short Circuit', encoding: 'packed', unit: 'mV', writable: true, codec: doubleOCSC('dsgOC2Threshold'), options: scaledBy(DSG_OC2_THRESHOLDS_MV) },
+  { key: 'dsgOC2Delay', address: JBD_REG.DoubleOCSC, name: 'Discharge OC2 Delay', group: 'Short Circuit', encoding: 'packed', unit: 'ms', writable: true, codec: doubleOCSC('dsgOC2Delay'), options: () => DSG_OC2_DELAYS_MS },
+
+  // Temperature
+  { key: 'chgOverTemp', address: JBD_REG.ChgOverTemp, name: 'Charge Over Temp', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'chgOTRelease', address: JBD_REG.ChgOTRelease, name: 'Charge OT Release', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'chgLowTemp', address: JBD_REG.ChgLowTemp, name: 'Charge Low Temp', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'chgUTRelease', address: JBD_REG.ChgUTRelease, name: 'Charge UT Release', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'disOverTemp', address: JBD_REG.DisOverTemp, name: 'Discharge Over Temp', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'dsgOTRelease', address: JBD_REG.DsgOTRelease, name: 'Discharge OT Release', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'disLowTemp', address: JBD_REG.DisLowTemp, name: 'Discharge Low Temp', group: 'Temperature', ...TEMP, writable: true },
+  { key: 'dsgUTRelease', address: JBD_REG.DsgUTRelease, name: 'Discharge UT Release', group: 'Temperature', ...TEMP, writable: true },
+
+  // Protection delays
+  { key: 'cellOVDelay', address: JBD_REG.CellVoltDelay, name: 'Cell OV Delay', group: 'Delays', ...DELAY, writable: true, codec: lowByte() },
+  { key: 'cellUVDelay', address: JBD_REG.CellVoltDelay, name: 'Cell UV Delay', group: 'Delays', ...DELAY, writable: true, codec: highByte() },
+  { key: 'hardCellOVDelay', address: JBD_REG.DelayHCOVP, name: 'Hard Cell OV Delay', group: 'Delays', encoding: 'packed', unit: 's', writable: true, codec: hardCellDelays('hardCellOVDelay'), options: () => HARD_CELL_OV_DELAYS_S },
+  { key: 'hardCellUVDelay', address: JBD_REG.DelayHCOVP, name: 'Hard Cell UV Delay', group: 'Delays', encoding: 'packed', unit: 's', writable: true, codec: hardCellDelays('hardCellUVDelay'), options: () => HARD_CELL_UV_DELAYS_S },
+  { key: 'packOVDelay', address: JBD_REG.PackVoltDelay, name: 'Pack OV Delay', group: 'Delays', ...DELAY, writable: true, codec: lowByte() },
+  { key: 'packUVDelay', address: JBD_REG.PackVoltDelay, name: 'Pack UV Delay', group: 'Delays', ...DELAY, writable: true, codec: highByte() },
+  { key: 'chgOCDelay', address: JBD_REG.ChgOCDelay, name: 'Charge OC Delay', group: 'Delays', ...DELAY, writable: true, codec: highByte() },
+  { key: 'chgOCRelease', address: JBD_REG.ChgOCDelay, name: 'Charge OC Release', group: 'Delays', ...DELAY, writable: true, codec: lowByte() },
+  { key: 'dsgOCDelay', address: JBD_REG.DsgOCDelay, name: 'Discharge OC Delay', group: 'Delays', ...DELAY, writable: true, codec: highByte() },
+  { key: 'dsgOCRelease', address: JBD_REG.DsgOCDelay, name: 'Discharge OC Release', group: 'Delays', ...DELAY, writable: true, codec: lowByte() },
+  { key: 'chgOTDelay', address: JBD_REG.ChgTempDelay, name: 'Charge OT Delay', group: 'Delays', ...DELAY, writable: true, codec: lowByte() },
+  { key: 'chgUTDelay', address: JBD_REG.ChgTempDelay, name: 'Charge UT Delay', group: 'Delays', ...DELAY, writable: true, codec: highByte() },
+  { key: 'dsgOTDelay', address: JBD_REG.DsgTempDelay, name: 'Discharge OT Delay', group: 'Delays', ...DELAY, writable: true, codec: lowByte() },
+  { key: 'dsgUTDelay', address: JBD_REG.DsgTempDelay, name: 'Discharge UT Delay', group: 'Delays', ...DELAY, writable: true, codec: highByte() },
+
+  // Balance
+  { key: 'balanceStartVoltage', address: JBD_REG.BalanceStartVoltage, name: 'Balance Start Voltage', group: 'Balance', ...CELL_MV, writable: true },
+  { key: 'balanceWindow', address: JBD_REG.BalanceWindow, name: 'Balance Window', group: 'Balance', encoding: 'uint16', unit: 'mV', min: 0, max: 500, writable: true },
+
+  // System
+  { key: 'senseResistor', address: JBD_REG.SenseResistor, name: 'Sense Resistor', group: 'System', encoding: 'uint16', scale: 0.1, unit: 'mΩ', min: 0.1, max: 100, writable: true },
+  { key: 'packNum', address: JBD_REG.PackNum, name: 'Cell Count', group: 'System', encoding: 'uint16', unit: '', min: 1, max: 32, writable: true },
+  { key: 'batteryConfig', address: JBD_REG.BatteryConfig, name: 'Function Config', group: 'System', encoding: 'uint16', unit: '', min: 0, max: 0xffff, writable: true },
+  { key: 'ntcConfig', address: JBD_REG.NtcConfig, name: 'NTC Config', group: 'System', encoding: 'uint16', unit: '', min: 0, max: 0xffff, writable: true },
+  { key: 'fetCtrlTime', address: JBD_REG.FetCtrlTime, name: 'FET Control Time', group: 'System', encoding: 'uint16', unit: 's', min: 0, max: 65535, writable: true },
+  { key: 'ledDispTime', address: JBD_REG.LedDispTime, name: 'LED Display Time', group: 'System', encoding: 'uint16', unit: 's', min: 0, max: 65535, writable: true },
+  { key: 'gpsVoltage', address: JBD_REG.GPS_VOL, name: 'GPS Shutdown Voltage', group: 'System', encoding: 'uint16', unit: 'mV', min: 0, max: 65535, writable: true },
+  { key: 'gpsTime', address: JBD_REG.GPS_TIME, name: 'GPS Shutdown Time', group: 'System', encoding: 'uint16', unit: 's', min: 0, max: 65535, writable: true },
+  { key: 'serialNumber', address: JBD_REG.SerialNumber, name: 'Serial Number', group: 'Identity', encoding: 'uint16', unit: '', min: 0, max: 65535, writable: true },
+  { key: 'cycleCount', address: JBD_REG.CycleCount, name: 'Cycle Count', group: 'System', encoding: 'uint16', unit: '', writable: false },
+  { key: 'manufactureDate', address: JBD_REG.ManufactureDate, name: 'Manufacture Date', group: 'Identity', encoding: 'uint16', unit: '', min: 0, max: 65535, writable: true },
+
+  // Open-circuit voltage per SOC point
+  { key: 'voltageCap100', address: JBD_REG.VoltageCap100, name: 'SOC 100%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap90', address: JBD_REG.VoltageCap90, name: 'SOC 90%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap80', address: JBD_REG.VoltageCap80, name: 'SOC 80%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap70', address: JBD_REG.VoltageCap70, name: 'SOC 70%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap60', address: JBD_REG.VoltageCap60, name: 'SOC 60%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap50', address: JBD_REG.VoltageCap50, name: 'SOC 50%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap40', address: JBD_REG.VoltageCap40, name: 'SOC 40%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap30', address: JBD_REG.VoltageCap30, name: 'SOC 30%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap20', address: JBD_REG.VoltageCap20, name: 'SOC 20%', group: 'SOC Curve', ...CELL_MV, writable: true },
+  { key: 'voltageCap10', address: JBD_REG.VoltageCap10, name: 'SOC 10%', group: 'SOC Curve', ...CELL_MV, writable: true },
+
+  // Identity strings
+  { key: 'manufacturerName', address: JBD_REG.ManufacturerName, name: 'Manufacturer', group: 'Identity', encoding: 'string', unit: '', maxLength: 31, writable: true },
+  { key: 'deviceName', address: JBD_REG.DeviceName, name: 'Device Name', group: 'Identity', encoding: 'string', unit: '', maxLength: 31, writable: true },
+  { key: 'barCode', address: JBD_REG.BarCode, name: 'Barcode', group: 'Identity', encoding: 'string', unit: '', maxLength: 31, writable: true },
+] as const satisfies readonly RegisterDef[];
+
+// Compile-time check that the schema covers every BMSConfig field
+type UnmappedKeys = Exclude<keyof BMSConfig, (typeof CONFIG_REGISTERS)[number]['key']>;
+const schemaIsComplete: [UnmappedKeys] extends [never] ? true : UnmappedKeys = true;
+void schemaIsComplete;
+
+/** Distinct register addresses in schema order (packed registers once) */
+export const CONFIG_ADDRESSES: number[] = [
+  ...new Set(CONFIG_REGISTERS.map((def) => def.address)),
+];
+
+const BY_KEY = new Map<keyof BMSConfig, RegisterDef>(
+  CONFIG_REGISTERS.map((def) => [def.key, def])
+);
+
+export function registerForKey(key: keyof BMSConfig): RegisterDef {
+  return BY_KEY.get(key)!;
+}
+
+/** All fields stored in `address` (several for packed registers) */
+export function fieldsAtAddress(address: number): RegisterDef[] {
+  return CONFIG_REGISTERS.filter((def) => def.address === address);
+}
+
+// ── Encode / decode ──────────────────────────────────────────────────────────
+
+/** Decimal places implied by a scale, e.g. 0.01 → 2 */
+function scaleDecimals(scale: number): number {
+  return scale >= 1 ? 0 : Math.round(-Math.log10(scale));
+}
+
+export function decodeField(def: RegisterDef, raw: number | string): ConfigValue {
+  if (def.encoding === 'string') return String(raw);
+  const word = Number(raw);
+  switch (def.encoding) {
+    case 'temp':
+      return decodeTemp(word);
+    case 'packed':
+      return def.codec.decode(word);
+    default: {
+      const scale = def.scale ?? 1;
+      return Number((word * scale).toFixed(scaleDecimals(scale)));
+    }
+  }
+}
+
+/**
+ * Encode one field into its register word. For packed fields `raw` supplies
+ * the bits belonging to the other fields sharing the register.
+ */
+export function encodeField(def: RegisterDef, value: ConfigValue, raw = 0): number {
+  switch (def.encoding) {
+    case 'temp':
+      return encodeTemp(Number(value));
+    case 'packed':
+      return def.codec.encode(raw, value as number | boolean);
+    case 'string':
+      throw new Error(`${def.name} is a string register`);
+    default:
+      return Math.round(Number(value) / (def.scale ?? 1)) & 0xffff;
+  }
+}
+
+/** Register word for `address`, built from every field it holds */
+export function encodeRegister(address: number, config: BMSConfig): number {
+  return fieldsAtAddress(address).reduce(
+    (raw, def) => encodeField(def, config[def.key], raw),
+    0
+  );
+}
+
+/**
+ * `value` for `address` with the bits no field covers taken from `current`,
+ * the word read from the device, so writing one field of a packed register
+ * keeps the bits this schema does not decode.
+ */
+export function mergeRegister(address: number, value: number, current: number): number {
+  const known = fieldsAtAddress(address).reduce(
+    (mask, def) => mask | (def.encoding === 'packed' ? def.codec.mask : 0xffff),
+    0
+  );
+  return (current & ~known) | (value & known);
+}
+
+/**
+ * Register writes that turn `base` into `next`, in schema order. Packed
+ * registers appear once even if several of their fields changed.
+ */
+export function diffConfig(base: BMSConfig, next: BMSConfig): RegisterWrite[] {
+  const writes: RegisterWrite[] = [];
+  for (const address of CONFIG_ADDRESSES) {
+    const [first] = fieldsAtAddress(address);
+    if (first.encoding === 'string') {
+      const value = String(next[first.key]);
+      if (value !== base[first.key]) writes.push({ address, value });
+      continue;
+    }
+    const value = encodeRegister(address, next);
+    if (value !== encodeRegister(address, base)) writes.push({ address, value });
+  }
+  return writes;
+}
+
+/** Raw register contents for every config address (inverse of decodeConfig) */
+export function encodeConfig(config: BMSConfig): Map<number, number | string> {
+  const raw = new Map<number, number | string>();
+  for (const address of CONFIG_ADDRESSES) {
+    const [first] = fieldsAtAddress(address);
+    raw.set(
+      address,
+      first.encoding === 'string' ? String(config[first.key]) : encodeRegister(address, config)
+    );
+  }
+  return raw;
+}
+
+/** `config` as it will read back once `writes` have been applied */
+export function applyWrites(config: BMSConfig, writes: RegisterWrite[]): BMSConfig {
+  const raw = encodeConfig(config);
+  for (const { address, value } of writes) raw.set(address, value);
+  return decodeConfig(raw);
+}
+
+/** Build a BMSConfig from raw register contents keyed by address */
+export function decodeConfig(raw: Map<number, number | string>): BMSConfig {
+  const config: Record<string, ConfigValue> = {};
+  for (const def of CONFIG_REGISTERS) {
+    config[def.key] = decodeField(def, raw.get(def.address) ?? 0);
+  }
+  return config as unknown as BMSConfig;
+}
+
+export function formatField(def: RegisterDef, value: ConfigValue): string {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (typeof value === 'string') return value;
+  const text =
+    def.encoding === 'uint16' ? value.toFixed(scaleDecimals(def.scale ?? 1)) : String(value);
+  return def.unit ? `${text} ${def.unit}` : text;
+}
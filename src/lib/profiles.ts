@@ -0,0 +1,303 @@
+/**
+ * Chemistry profiles: per-cell limits that expand into a complete BMSConfig
+ * for a given series count, capacity and current rating.
+ */
+import type { BMSConfig } from './jbd-protocol';
+
+export interface ChemistryProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  // Per-cell voltages, mV
+  cellOverVoltage: number;
+  cellOVRelease: number;
+  cellUnderVoltage: number;
+  cellUVRelease: number;
+  hardCellOverVoltage: number;
+  hardCellUnderVoltage: number;
+  fullChargeVol: number;
+  chargeEndVol: number;
+  balanceStartVoltage: number;
+  balanceWindow: number;
+  // Temperatures, °C
+  chgOverTemp: number;
+  chgOTRelease: number;
+  chgLowTemp: number;
+  chgUTRelease: number;
+  disOverTemp: number;
+  dsgOTRelease: number;
+  disLowTemp: number;
+  dsgUTRelease: number;
+  /** Rest voltage at 100, 90 … 10 % SOC, mV */
+  ocvCurve: number[];
+  /** Cells can be charged below 0 °C without plating lithium (built-ins only) */
+  chargesBelowFreezing?: boolean;
+}
+
+/** Pack-level inputs that scale a profile */
+export interface PackParameters {
+  packNum: number;
+  capacityAh: number;
+  chargeCurrentA: number;
+  dischargeCurrentA: number;
+}
+
+/** VoltageCap fields in the same order as `ocvCurve` */
+export const OCV_KEYS = [
+  'voltageCap100',
+  'voltageCap90',
+  'voltageCap80',
+  'voltageCap70',
+  'voltageCap60',
+  'voltageCap50',
+  'voltageCap40',
+  'voltageCap30',
+  'voltageCap20',
+  'voltageCap10',
+] as const satisfies readonly (keyof BMSConfig)[];
+
+/** The profile fields copied onto BMSConfig as-is */
+export const PROFILE_KEYS = [
+  'cellOverVoltage',
+  'cellOVRelease',
+  'cellUnderVoltage',
+  'cellUVRelease',
+  'hardCellOverVoltage',
+  'hardCellUnderVoltage',
+  'fullChargeVol',
+  'chargeEndVol',
+  'balanceStartVoltage',
+  'balanceWindow',
+  'chgOverTemp',
+  'chgOTRelease',
+  'chgLowTemp',
+  'chgUTRelease',
+  'disOverTemp',
+  'dsgOTRelease',
+  'disLowTemp',
+  'dsgUTRelease',
+] as const satisfies readonly (keyof ChemistryProfile & keyof BMSConfig)[];
+
+export const BUILT_IN_PROFILES: ChemistryProfile[] = [
+  {
+    id: 'lifepo4',
+    name: 'LiFePO4',
+    builtIn: true,
+    cellOverVoltage: 3650,
+    cellOVRelease: 3400,
+    cellUnderVoltage: 2500,
+    cellUVRelease: 2900,
+    hardCellOverVoltage: 3750,
+    hardCellUnderVoltage: 2300,
+    fullChargeVol: 3600,
+    chargeEndVol: 2700,
+    balanceStartVoltage: 3400,
+    balanceWindow: 30,
+    chgOverTemp: 55,
+    chgOTRelease: 50,
+    chgLowTemp: 0,
+    chgUTRelease: 5,
+    disOverTemp: 60,
+    dsgOTRelease: 55,
+    disLowTemp: -20,
+    dsgUTRelease: -15,
+    ocvCurve: [3450, 3370, 3350, 3320, 3300, 3290, 3270, 3250, 3200, 3100],
+  },
+  {
+    id: 'nmc',
+    name: 'NMC',
+    builtIn: true,
+    cellOverVoltage: 4200,
+    cellOVRelease: 4100,
+    cellUnderVoltage: 3000,
+    cellUVRelease: 3200,
+    hardCellOverVoltage: 4300,
+    hardCellUnderVoltage: 2700,
+    fullChargeVol: 4150,
+    chargeEndVol: 3000,
+    balanceStartVoltage: 4000,
+    balanceWindow: 20,
+    chgOverTemp: 45,
+    chgOTRelease: 40,
+    chgLowTemp: 0,
+    chgUTRelease: 5,
+    disOverTemp: 60,
+    dsgOTRelease: 55,
+    disLowTemp: -20,
+    dsgUTRelease: -15,
+    ocvCurve: [4150, 4050, 3960, 3880, 3800, 3730, 3680, 3630, 3550, 3450],
+  },
+  {
+    id: 'lto',
+    name: 'LTO',
+    builtIn: true,
+    cellOverVoltage: 2800,
+    cellOVRelease: 2650,
+    cellUnderVoltage: 1800,
+    cellUVRelease: 2000,
+    hardCellOverVoltage: 2900,
+    hardCellUnderVoltage: 1600,
+    fullChargeVol: 2750,
+    chargeEndVol: 1900,
+    balanceStartVoltage: 2500,
+    balanceWindow: 30,
+    chgOverTemp: 55,
+    chgOTRelease: 50,
+    chgLowTemp: -20,
+    chgUTRelease: -15,
+    disOverTemp: 60,
+    dsgOTRelease: 55,
+    disLowTemp: -30,
+    dsgUTRelease: -25,
+    ocvCurve: [2650, 2520, 2480, 2450, 2420, 2390, 2350, 2300, 2240, 2150],
+    chargesBelowFreezing: true,
+  },
+  {
+    id: 'lipo',
+    name: 'LiPo',
+    builtIn: true,
+    cellOverVoltage: 4200,
+    cellOVRelease: 4150,
+    cellUnderVoltage: 3300,
+    cellUVRelease: 3500,
+    hardCellOverVoltage: 4250,
+    hardCellUnderVoltage: 3000,
+    fullChargeVol: 4150,
+    chargeEndVol: 3300,
+    balanceStartVoltage: 4050,
+    balanceWindow: 15,
+    chgOverTemp: 45,
+    chgOTRelease: 40,
+    chgLowTemp: 5,
+    chgUTRelease: 10,
+    disOverTemp: 60,
+    dsgOTRelease: 55,
+    disLowTemp: -10,
+    dsgUTRelease: -5,
+    ocvCurve: [4150, 4080, 4000, 3930, 3870, 3820, 3790, 3760, 3720, 3650],
+  },
+  {
+    id: 'sodium-ion',
+    name: 'Sodium-ion',
+    builtIn: true,
+    cellOverVoltage: 3950,
+    cellOVRelease: 3800,
+    cellUnderVoltage: 1500,
+    cellUVRelease: 2000,
+    hardCellOverVoltage: 4100,
+    hardCellUnderVoltage: 1300,
+    fullChargeVol: 3900,
+    chargeEndVol: 1800,
+    balanceStartVoltage: 3400,
+    balanceWindow: 30,
+    chgOverTemp: 45,
+    chgOTRelease: 40,
+    chgLowTemp: -10,
+    chgUTRelease: -5,
+    disOverTemp: 60,
+    dsgOTRelease: 55,
+    disLowTemp: -30,
+    dsgUTRelease: -25,
+    ocvCurve: [3850, 3500, 3350, 3250, 3150, 3050, 2950, 2800, 2600, 2300],
+    chargesBelowFreezing: true,
+  },
+];
+
+/**
+ * The built-in chemistry whose cell voltage window is nearest `config`'s.
+ * The BMS stores no chemistry, so this is the best the config alone tells.
+ */
+export function chemistryOf(config: BMSConfig): ChemistryProfile {
+  const distance = (p: ChemistryProfile) =>
+    Math.abs(p.cellOverVoltage - config.cellOverVoltage) +
+    Math.abs(p.cellUnderVoltage - config.cellUnderVoltage);
+  return BUILT_IN_PROFILES.reduce((best, p) => (distance(p) < distance(best) ? p : best));
+}
+
+/** Pack parameters implied by an existing config */
+export function packFromConfig(config: BMSConfig): PackParameters {
+  return {
+    packNum: config.packNum,
+    capacityAh: config.designCapacity,
+    chargeCurrentA: config.overChargeCurrent,
+    dischargeCurrentA: config.overDisCurrent,
+  };
+}
+
+/** Round pack voltages to the register's 10 mV resolution */
+const packVolts = (cellMv: number, packNum: number) => Math.round((cellMv * packNum) / 10) / 100;
+
+/**
+ * Expand `profile` into a complete config for `pack`. Fields a profile
+ * does not cover (identity, delays, short circuit, NTC/function bits,
+ * sense resistor) are kept from `base`.
+ */
+export function expandProfile(
+  profile: ChemistryProfile,
+  pack: PackParameters,
+  base: BMSConfig
+): BMSConfig {
+  const config: BMSConfig = { ...base, packNum: pack.packNum };
+  for (const key of PROFILE_KEYS) config[key] = profile[key];
+  OCV_KEYS.forEach((key, i) => (config[key] = profile.ocvCurve[i]));
+
+  config.packOverVoltage = packVolts(profile.cellOverVoltage, pack.packNum);
+  config.packOVRelease = packVolts(profile.cellOVRelease, pack.packNum);
+  config.packUnderVoltage = packVolts(profile.cellUnderVoltage, pack.packNum);
+  config.packUVRelease = packVolts(profile.cellUVRelease, pack.packNum);
+
+  config.designCapacity = pack.capacityAh;
+  config.cycleCapacity = Math.round(pack.capacityAh * 80) / 100;
+  config.overChargeCurrent = pack.chargeCurrentA;
+  config.overDisCurrent = pack.dischargeCurrentA;
+  return config;
+}
+
+/** Capture the per-cell part of a config as a new custom profile */
+export function profileFromConfig(name: string, config: BMSConfig): ChemistryProfile {
+  const profile = {
+    id: `custom:${name}`,
+    name,
+    builtIn: false,
+    ocvCurve: OCV_KEYS.map((key) => config[key]),
+  } as ChemistryProfile;
+  for (const key of PROFILE_KEYS) profile[key] = config[key];
+  return profile;
+}
+
+// ── Custom profiles ──────────────────────────────────────────────────────────
+
+const PROFILE_STORAGE_KEY = 'jbd-custom-profiles';
+
+export function loadCustomProfiles(): ChemistryProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ChemistryProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Throws when storage is full or unavailable (e.g. private browsing), so the caller can say so */
+function storeCustomProfiles(profiles: ChemistryProfile[]): void {
+  try {
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+  } catch {
+    throw new Error('Could not save custom profiles: browser storage is full or unavailable');
+  }
+}
+
+/** Save (or overwrite) a custom profile by name; returns the updated list */
+export function saveCustomProfile(profile: ChemistryProfile): ChemistryProfile[] {
+  const saved: ChemistryProfile = { ...profile, id: `custom:${profile.name}`, builtIn: false };
+  const profiles = loadCustomProfiles().filter((p) => p.id !== saved.id);
+  profiles.push(saved);
+  storeCustomProfiles(profiles);
+  return profiles;
+}
+
+export function deleteCustomProfile(id: string): ChemistryProfile[] {
+  const profiles = loadCustomProfiles().filter((p) => p.id !== id);
+  storeCustomProfiles(profiles);
+  return profiles;
+}
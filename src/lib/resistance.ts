@@ -0,0 +1,238 @@
+/**
+ * Cell DC internal resistance from load steps: when the pack current jumps
+ * between two polls, each cell's voltage change over the current change is
+ * its resistance. Individual steps are noisy, so estimates come from the
+ * recent steps with outliers rejected, and are kept per day as a trend.
+ */
+import { dayKey } from './energy';
+
+export interface StepSample {
+  time: number; // ms since epoch
+  voltage: number; // V, pack
+  current: number; // A, positive when charging
+  cellVoltages: number[]; // V
+  fullCapacity: number; // Ah
+}
+
+export interface IRStep {
+  time: number;
+  /** Current change across the step, A */
+  deltaCurrent: number;
+  /** Per-cell resistance, mΩ; null where the cell's reading was rejected */
+  resistances: (number | null)[];
+}
+
+export interface IRPoint {
+  day: string; // YYYY-MM-DD, local
+  time: number; // last step of the day
+  /** Robust per-cell estimate from the day's steps, mΩ */
+  resistances: (number | null)[];
+  steps: number;
+}
+
+export interface ResistanceRecord {
+  /** Pack identity, see deviceIdFor; steps from different packs are never pooled */
+  deviceId: string;
+  steps: IRStep[];
+  trend: IRPoint[];
+  /** Last two samples, for step detection; not persisted */
+  recent?: StepSample[];
+}
+
+export interface CellResistance {
+  /** mΩ, null until enough steps agree */
+  resistance: number | null;
+  /** Steps behind the estimate */
+  steps: number;
+  high: boolean;
+}
+
+/** Samples further apart than this are not compared, ms */
+const MAX_STEP_GAP = 5_000;
+/** Smallest current change that counts as a step, A */
+const MIN_STEP_A = 2;
+/** Smallest step as a fraction of capacity (0.1C), so the voltage change clears the 1 mV resolution */
+const MIN_STEP_C = 0.1;
+/** The current before a step must have held within this fraction of the step */
+const SETTLED_FRACTION = 0.25;
+/** Per-cell values outside this range are measurement errors, mΩ */
+const MAX_IR = 100;
+/** Summed cell and pack voltage changes must agree to within this ratio */
+const PACK_AGREEMENT = 0.5;
+/** Pack voltage changes smaller than this are too coarse to compare, V */
+const MIN_PACK_DELTA = 0.05;
+
+/** Steps the current estimate is drawn from */
+export const ESTIMATE_STEPS = 30;
+/** Fewer valid steps than this give no estimate */
+export const MIN_STEPS = 3;
+/** A cell this far above the pack median is flagged */
+export const HIGH_IR_RATIO = 1.5;
+/** …and at least this far above it, mΩ, so quantization alone never flags one */
+const HIGH_IR_MARGIN = 0.3;
+
+const MAX_STEPS = 500;
+const MAX_TREND = 365;
+
+export function minStepCurrent(fullCapacity: number): number {
+  return Math.max(MIN_STEP_A, fullCapacity * MIN_STEP_C);
+}
+
+/**
+ * Per-cell resistance across the step from `prev` to `next`, or null when
+ * it is not a usable step: too small, too far apart, preceded by a ramp
+ * rather than a settled current (`before` → `prev`), or with cell readings
+ * that disagree with the pack voltage, as when HWINFO and CELLINFO were
+ * read either side of the step.
+ */
+export function detectStep(before: StepSample | undefined, prev: StepSample, next: StepSample): IRStep | null {
+  if (next.time - prev.time > MAX_STEP_GAP || next.time <= prev.time) return null;
+  const deltaCurrent = next.current - prev.current;
+  if (Math.abs(deltaCurrent) < minStepCurrent(next.fullCapacity)) return null;
+  if (next.cellVoltages.length !== prev.cellVoltages.length) return null;
+
+  if (
+    !before ||
+    prev.time - before.time > MAX_STEP_GAP ||
+    Math.abs(prev.current - before.current) > Math.abs(deltaCurrent) * SETTLED_FRACTION
+  ) {
+    return null;
+  }
+
+  const cellDeltas = next.cellVoltages.map((v, i) => v - prev.cellVoltages[i]);
+  const packDelta = next.voltage - prev.voltage;
+  if (Math.abs(packDelta) >= MIN_PACK_DELTA) {
+    const ratio = cellDeltas.reduce((a, b) => a + b, 0) / packDelta;
+    if (ratio < 1 - PACK_AGREEMENT || ratio > 1 + PACK_AGREEMENT) return null;
+  }
+
+  const resistances = cellDeltas.map((dv) => {
+    const mOhm = (dv / deltaCurrent) * 1000;
+    return mOhm >= 0 && mOhm <= MAX_IR ? mOhm : null;
+  });
+  // Most cells must agree on the direction of the step
+  if (resistances.filter((r) => r !== null).length < resistances.length / 2) return null;
+  return { time: next.time, deltaCurrent, resistances };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Mean of the values within 3 scaled median absolute deviations of the
+ * median, so a misread step or two cannot drag the estimate.
+ */
+export function robustEstimate(values: number[]): { value: number; count: number } | null {
+  if (values.length < MIN_STEPS) return null;
+  const m = median(values);
+  const mad = median(values.map((v) => Math.abs(v - m))) * 1.4826;
+  // Quantized readings can all agree exactly; allow a small spread then
+  const limit = Math.max(3 * mad, m * 0.05);
+  const kept = values.filter((v) => Math.abs(v - m) <= limit);
+  if (kept.length < MIN_STEPS) return null;
+  return { value: kept.reduce((a, b) => a + b, 0) / kept.length, count: kept.length };
+}
+
+function estimateFrom(steps: IRStep[], cellCount: number): { value: number; count: number }[] {
+  return Array.from({ length: cellCount }, (_, i) => {
+    const values = steps.map((s) => s.resistances[i]).filter((r): r is number => r !== null && r !== undefined);
+    return robustEstimate(values) ?? { value: NaN, count: values.length };
+  });
+}
+
+/** Current estimate per cell from the recent steps, with high-IR cells flagged */
+export function cellResistances(record: ResistanceRecord, cellCount: number): CellResistance[] {
+  const estimates = estimateFrom(record.steps.slice(-ESTIMATE_STEPS), cellCount);
+  const known = estimates.filter((e) => !Number.isNaN(e.value)).map((e) => e.value);
+  const packMedian = known.length >= 2 ? median(known) : null;
+  return estimates.map((e) => {
+    const resistance = Number.isNaN(e.value) ? null : e.value;
+    return {
+      resistance,
+      steps: e.count,
+      high:
+        resistance !== null &&
+        packMedian !== null &&
+        resistance > packMedian * HIGH_IR_RATIO &&
+        resistance - packMedian > HIGH_IR_MARGIN,
+    };
+  });
+}
+
+/** Fold one sample into a record, logging a step and updating the day's trend point when one is found */
+export function addStepSample(record: ResistanceRecord, sample: StepSample): ResistanceRecord {
+  const recent = record.recent ?? [];
+  const prev = recent[recent.length - 1];
+  const step = prev ? detectStep(recent[recent.length - 2], prev, sample) : null;
+  const next = { ...record, recent: [...recent, sample].slice(-2) };
+  if (!step) return next;
+
+  const steps = [...record.steps, step].slice(-MAX_STEPS);
+  const day = dayKey(step.time);
+  const dayEstimates = estimateFrom(
+    steps.filter((s) => dayKey(s.time) === day),
+    sample.cellVoltages.length
+  );
+  const point: IRPoint = {
+    day,
+    time: step.time,
+    resistances: dayEstimates.map((e) => (Number.isNaN(e.value) ? null : e.value)),
+    steps: steps.filter((s) => dayKey(s.time) === day).length,
+  };
+  const last = record.trend[record.trend.length - 1];
+  const trend = (last?.day === day ? [...record.trend.slice(0, -1), point] : [...record.trend, point]).slice(
+    -MAX_TREND
+  );
+  return { ...next, steps, trend };
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+const RESISTANCE_STORAGE_KEY = 'jbd-resistance';
+
+export function loadResistanceRecords(): Record<string, ResistanceRecord> {
+  try {
+    const stored = localStorage.getItem(RESISTANCE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, ResistanceRecord>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveResistanceRecords(records: Record<string, ResistanceRecord>): void {
+  try {
+    const stored = Object.fromEntries(
+      Object.entries(records).map(([id, { recent: _recent, ...record }]) => [id, record])
+    );
+    localStorage.setItem(RESISTANCE_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable; the record stays in memory
+  }
+}
+
+/** Tracks load steps per device, kept in localStorage; saves whenever a step is found */
+export class ResistanceTracker {
+  private records = loadResistanceRecords();
+
+  add(deviceId: string, sample: StepSample): ResistanceRecord {
+    const before = this.records[deviceId] ?? { deviceId, steps: [], trend: [] };
+    const after = addStepSample(before, sample);
+    this.records[deviceId] = after;
+    if (after.steps !== before.steps) saveResistanceRecords(this.records);
+    return after;
+  }
+
+  record(deviceId: string): ResistanceRecord | null {
+    return this.records[deviceId] ?? null;
+  }
+
+  reset(deviceId: string): void {
+    delete this.records[deviceId];
+    saveResistanceRecords(this.records);
+  }
+}
+
+export const resistanceTracker = new ResistanceTracker();
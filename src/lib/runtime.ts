@@ -0,0 +1,118 @@
+/**
+ * Time-to-empty and time-to-full estimation from a smoothed current, the
+ * remaining capacity and a CV-phase taper model for the end of charge.
+ */
+
+export interface CurrentAverage {
+  /** Exponentially weighted mean current, A */
+  mean: number;
+  /** Exponentially weighted variance, A² */
+  variance: number;
+  /** Time covered since the last reset, ms */
+  age: number;
+  /** Time of the last sample, ms since epoch */
+  time: number;
+  /** How long the current has opposed the mean, ms */
+  opposed: number;
+}
+
+/** Smoothing time constant, ms */
+export const AVERAGE_TAU = 120_000;
+/** A current this long against the mean (not a brief regen blip) restarts the average, ms */
+const REVERSAL_TIME = 10_000;
+/** Samples further apart than this restart the average, ms */
+const MAX_GAP = 30_000;
+
+export function updateCurrentAverage(
+  avg: CurrentAverage | null,
+  current: number,
+  time: number,
+  idleA: number
+): CurrentAverage {
+  const fresh = { mean: current, variance: 0, age: 0, time, opposed: 0 };
+  if (!avg || time - avg.time > MAX_GAP || time <= avg.time) return fresh;
+
+  const dt = time - avg.time;
+  const against = Math.abs(current) > idleA && Math.sign(current) !== Math.sign(avg.mean) && Math.abs(avg.mean) > idleA;
+  const opposed = against ? avg.opposed + dt : 0;
+  if (opposed >= REVERSAL_TIME) return fresh;
+
+  const alpha = 1 - Math.exp(-dt / AVERAGE_TAU);
+  const diff = current - avg.mean;
+  const mean = avg.mean + alpha * diff;
+  const variance = (1 - alpha) * (avg.variance + alpha * diff * diff);
+  return { mean, variance, age: avg.age + dt, time, opposed };
+}
+
+export type RuntimeMode = 'charging' | 'discharging' | 'idle';
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface RuntimeEstimate {
+  mode: RuntimeMode;
+  /** Hours to empty or to the end of charge; null when idle or unknowable */
+  hours: number | null;
+  confidence: Confidence;
+  /** Part of `hours` spent in the CV taper, when charging */
+  taperHours?: number;
+}
+
+/** SOC at which the charger is assumed to leave constant current for constant voltage, % */
+export const TAPER_SOC = 90;
+/** Charge ends when the current falls to this fraction of capacity (0.05C) */
+export const TERMINATION_C = 0.05;
+
+/** Current below which the pack counts as idle, A */
+export function idleCurrent(fullCapacity: number): number {
+  return Math.max(0.05, fullCapacity * 0.005);
+}
+
+/**
+ * Time to deliver `ah` while the current decays exponentially from `amps`
+ * to the termination current: the charge delivered is τ·(I − Iₜ), so
+ * τ = ah / (I − Iₜ) and the time is τ·ln(I / Iₜ). A current already at or
+ * below termination (a trickle charger, say) is taken as holding steady;
+ * both forms tend to ah / Iₜ as I approaches Iₜ.
+ */
+export function taperHours(ah: number, amps: number, terminationA: number): number {
+  if (ah <= 0) return 0;
+  if (amps <= terminationA) return ah / amps;
+  const tau = ah / (amps - terminationA);
+  return tau * Math.log(amps / terminationA);
+}
+
+function confidenceOf(avg: CurrentAverage): Confidence {
+  if (avg.age < AVERAGE_TAU / 4) return 'low';
+  const variation = Math.sqrt(avg.variance) / Math.abs(avg.mean);
+  return variation < 0.15 && avg.age >= AVERAGE_TAU ? 'high' : variation < 0.4 ? 'medium' : 'low';
+}
+
+export function estimateRuntime(
+  avg: CurrentAverage | null,
+  remainingCapacity: number,
+  fullCapacity: number
+): RuntimeEstimate {
+  const idleA = idleCurrent(fullCapacity);
+  if (!avg || Math.abs(avg.mean) <= idleA) return { mode: 'idle', hours: null, confidence: 'low' };
+  const confidence = confidenceOf(avg);
+
+  if (avg.mean < 0) {
+    return { mode: 'discharging', hours: remainingCapacity / -avg.mean, confidence };
+  }
+
+  // Constant current up to TAPER_SOC, then an exponential taper to termination
+  const needAh = Math.max(0, fullCapacity - remainingCapacity);
+  const terminationA = Math.max(idleA, fullCapacity * TERMINATION_C);
+  const taperAh = Math.min(needAh, fullCapacity * (1 - TAPER_SOC / 100));
+  const ccHours = (needAh - taperAh) / avg.mean;
+  // Past the taper start the measured current is already tapering
+  const taper = taperHours(taperAh, avg.mean, terminationA);
+  return { mode: 'charging', hours: ccHours + taper, confidence, taperHours: taper };
+}
+
+export function formatDuration(hours: number): string {
+  if (!Number.isFinite(hours)) return '—';
+  const minutes = Math.round(hours * 60);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
@@ -1,5 +1,6 @@
 /**
- * Web Serial API wrapper for JBD BMS communication
+ * JBD BMS command layer. Talks to the BMS over any BMSTransport;
+ * Web Serial is the default.
  */
 
 import {
@@ -8,84 +9,172 @@ import {
   buildEEPROMOpen,
   buildEEPROMClose,
   buildMosfetControl,
+  buildCapacityWrite,
+  buildBalanceControl,
+  buildReset,
+  buildFactoryReset,
   buildWriteUint16,
-  parseResponsePacket,
+  toParsedPacket,
+  JBDFrameParser,
   decodeHardwareInfo,
   decodeCellInfo,
   decodeString,
+  decodeConfigString,
+  encodeConfigString,
+  JBD_CMD_READ,
   JBD_CMD_HWINFO,
   JBD_CMD_CELLINFO,
   JBD_CMD_HWVER,
   JBD_REG,
-  decodeTemp,
   encodeTemp,
   type BMSHardwareInfo,
   type BMSCellInfo,
   type BMSConfig,
   type ParsedPacket,
 } from './jbd-protocol';
+import {
+  WebSerialTransport,
+  describeSerialPort,
+  type BMSTransport,
+} from './transport';
+import {
+  CONFIG_ADDRESSES,
+  decodeConfig,
+  fieldsAtAddress,
+  mergeRegister,
+  type RegisterWrite,
+} from './jbd-registers';
+
+export type { BMSTransport, TransportEvent } from './transport';
+export { WebSerialTransport } from './transport';
 
-// ── Web Serial types ─────────────────────────────────────────────────────────
+// ── Errors ───────────────────────────────────────────────────────────────────
 
-declare global {
-  interface Navigator {
-    serial: {
-      requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
-      getPorts(): Promise<SerialPort[]>;
-    };
+function regHex(register: number): string {
+  return `0x${register.toString(16).padStart(2, '0').toUpperCase()}`;
+}
+
+/** Base class for every serial / protocol failure raised by BMSSerial */
+export class BMSError extends Error {
+  override name = 'BMSError';
+}
+
+/** No response frame arrived for a request within the read timeout */
+export class TimeoutError extends BMSError {
+  override name = 'TimeoutError';
+  constructor(
+    readonly register: number,
+    readonly timeoutMs: number
+  ) {
+    super(`No response to register ${regHex(register)} within ${timeoutMs} ms`);
   }
+}
 
-  interface SerialPortRequestOptions {
-    filters?: SerialPortFilter[];
+/** A response frame arrived but its checksum did not match */
+export class CRCError extends BMSError {
+  override name = 'CRCError';
+  constructor(
+    readonly register: number,
+    readonly expected: number,
+    readonly actual: number
+  ) {
+    super(
+      `CRC mismatch on register ${regHex(register)}: expected 0x${expected.toString(16)}, got 0x${actual.toString(16)}`
+    );
   }
+}
 
-  interface SerialPortFilter {
-    usbVendorId?: number;
-    usbProductId?: number;
+/** Bytes arrived but never formed a usable frame, or the payload was the wrong shape */
+export class FramingError extends BMSError {
+  override name = 'FramingError';
+  constructor(
+    readonly register: number,
+    detail: string
+  ) {
+    super(`Invalid response for register ${regHex(register)}: ${detail}`);
   }
+}
 
-  interface SerialPort {
-    open(options: SerialOptions): Promise<void>;
-    close(): Promise<void>;
-    readable: ReadableStream<Uint8Array> | null;
-    writable: WritableStream<Uint8Array> | null;
-    getInfo(): SerialPortInfo;
+/** The BMS answered with a non-zero status byte */
+export class BMSStatusError extends BMSError {
+  override name = 'BMSStatusError';
+  constructor(
+    readonly register: number,
+    readonly status: number
+  ) {
+    super(`BMS error status 0x${status.toString(16)} for register ${regHex(register)}`);
   }
+}
 
-  interface SerialOptions {
-    baudRate: number;
-    dataBits?: number;
-    stopBits?: number;
-    parity?: 'none' | 'even' | 'odd';
-    bufferSize?: number;
-    flowControl?: 'none' | 'hardware';
+/** There is no open transport, or it closed while a request was in flight */
+export class PortClosedError extends BMSError {
+  override name = 'PortClosedError';
+  constructor(message = 'Port is not open') {
+    super(message);
   }
+}
 
-  interface SerialPortInfo {
-    usbVendorId?: number;
-    usbProductId?: number;
+/** Opening or closing (committing) the EEPROM session failed */
+export class EEPROMSessionError extends BMSError {
+  override name = 'EEPROMSessionError';
+  constructor(
+    readonly phase: 'open' | 'close',
+    readonly cause: unknown
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      phase === 'open'
+        ? `Could not open EEPROM session: ${reason}`
+        : `EEPROM session did not close — changes may not be saved: ${reason}`
+    );
   }
 }
 
-// ── Known USB-serial adapter vendors ─────────────────────────────────────────
-
-const USB_SERIAL_VENDORS: Record<number, string> = {
-  0x0403: 'FTDI',
-  0x1a86: 'CH340',
-  0x10c4: 'CP210x',
-  0x067b: 'PL2303',
-  0x2341: 'Arduino',
-  0x1d6b: 'Linux USB',
-  0x239a: 'Adafruit',
-  0x2e8a: 'Raspberry Pi',
-  0x0d28: 'ARM DAPLink',
-  0x303a: 'Espressif',
-};
+/** A register read back a different value than was just written */
+export class VerifyError extends BMSError {
+  override name = 'VerifyError';
+  constructor(
+    readonly register: number,
+    readonly expected: number | string,
+    readonly actual: number | string
+  ) {
+    super(
+      `Register ${regHex(register)} read back ${JSON.stringify(actual)} after writing ${JSON.stringify(expected)}`
+    );
+  }
+}
+
+/** A batched config write failed partway through */
+export class ConfigWriteError extends BMSError {
+  override name = 'ConfigWriteError';
+  constructor(
+    readonly register: number,
+    readonly cause: unknown,
+    /** Registers successfully written before the failure */
+    readonly completed: number,
+    /** Whether every touched register was restored to its original value */
+    readonly rolledBack: boolean
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `Writing register ${regHex(register)} failed after ${completed} change(s)` +
+        `${rolledBack ? ', originals restored' : ' — rollback incomplete'}: ${reason}`
+    );
+  }
+}
 
 // ── BMS Serial Connection ────────────────────────────────────────────────────
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+export interface ConfigWriteProgress {
+  phase: 'capture' | 'write' | 'verify' | 'rollback' | 'done';
+  /** Index into the change list (rollback counts back down) */
+  index: number;
+  total: number;
+  register: number;
+}
+
 export interface SerialConfig {
   baudRate: number;
 }
@@ -108,6 +197,8 @@ export interface TrafficEntry {
   data: Uint8Array;
   hex: string;
   ascii: string;
+  /** RX frame that arrived with no request waiting for it (late or spontaneous) */
+  unsolicited?: boolean;
 }
 
 export type TrafficListener = (entry: TrafficEntry) => void;
@@ -124,16 +215,41 @@ function formatAscii(data: Uint8Array): string {
     .join('');
 }
 
-function makeEntry(direction: 'TX' | 'RX', data: Uint8Array): TrafficEntry {
+function makeEntry(
+  direction: 'TX' | 'RX',
+  data: Uint8Array,
+  unsolicited?: boolean
+): TrafficEntry {
   return {
     timestamp: Date.now(),
     direction,
     data: new Uint8Array(data), // copy
     hex: formatHex(data),
     ascii: formatAscii(data),
+    ...(unsolicited && { unsolicited }),
   };
 }
 
+/** A command waiting for its response frame */
+interface PendingResponse {
+  /** Reads are answered with data; a write ack carries none */
+  expectsData: boolean;
+  settle: (result: ParsedPacket | BMSError) => void;
+  /** Bytes thrown away by the parser while waiting */
+  discarded: number;
+}
+
+/**
+ * Whether `frame` can answer `waiting`. A late ack for an earlier write to
+ * the same register must not be taken as the reply to a read of it. Error
+ * statuses carry no data either way, so they always answer.
+ */
+function answers(waiting: PendingResponse, frame: Uint8Array): boolean {
+  const status = frame[2];
+  const length = frame[3];
+  return status !== 0 || (waiting.expectsData ? length > 0 : length === 0);
+}
+
 const DEFAULT_CONFIG: SerialConfig = {
   baudRate: 9600,
 };
@@ -143,22 +259,50 @@ const PROBE_TIMEOUT = 1500;
 const MAX_RETRIES = 3;
 
 export class BMSSerial {
-  private port: SerialPort | null = null;
+  private transport: BMSTransport | null = null;
+  private transportUnsub: (() => void) | null = null;
   private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private readLoop: Promise<void> | null = null;
+  private parser = new JBDFrameParser();
+  /** Requests awaiting a response, keyed by the register they address */
+  private pending: Map<number, PendingResponse> = new Map();
   private _state: ConnectionState = 'disconnected';
   private onStateChange?: (state: ConnectionState) => void;
   private trafficListeners: Set<TrafficListener> = new Set();
   private commandLock: Promise<void> = Promise.resolve();
 
+  constructor() {
+    this.parser.onEvent((event) => {
+      if (event.type === 'discard') {
+        this.emitTraffic('RX', event.bytes);
+        for (const waiting of this.pending.values()) {
+          waiting.discarded += event.bytes.length;
+        }
+        return;
+      }
+      const register = event.frame[1];
+      const pending = this.pending.get(register);
+      const waiting =
+        pending && (event.type === 'crc-error' || answers(pending, event.frame)) ? pending : undefined;
+      this.emitTraffic('RX', event.frame, !waiting);
+      // A corrupt frame still answers the request, so it can retry at once
+      waiting?.settle(
+        event.type === 'frame'
+          ? toParsedPacket(event.frame)
+          : new CRCError(register, event.expected, event.actual)
+      );
+    });
+  }
+
   /** Subscribe to raw TX/RX traffic. Returns unsubscribe function. */
   onTraffic(listener: TrafficListener): () => void {
     this.trafficListeners.add(listener);
     return () => this.trafficListeners.delete(listener);
   }
 
-  private emitTraffic(direction: 'TX' | 'RX', data: Uint8Array) {
+  private emitTraffic(direction: 'TX' | 'RX', data: Uint8Array, unsolicited?: boolean) {
     if (this.trafficListeners.size === 0) return;
-    const entry = makeEntry(direction, data);
+    const entry = makeEntry(direction, data, unsolicited);
     for (const listener of this.trafficListeners) {
       listener(entry);
     }
@@ -172,8 +316,15 @@ export class BMSSerial {
     return this._state === 'connected';
   }
 
+  /** The transport currently in use, if any */
+  get activeTransport(): BMSTransport | null {
+    return this.transport;
+  }
+
   get connectedPortInfo(): SerialPortInfo | null {
-    return this.port?.getInfo() ?? null;
+    return this.transport instanceof WebSerialTransport
+      ? this.transport.port.getInfo()
+      : null;
   }
 
   setOnStateChange(cb: (state: ConnectionState) => void) {
@@ -186,7 +337,7 @@ export class BMSSerial {
   }
 
   static isSupported(): boolean {
-    return 'serial' in navigator;
+    return WebSerialTransport.isSupported();
   }
 
   // ── Port discovery ─────────────────────────────────────────────────────────
@@ -197,22 +348,12 @@ export class BMSSerial {
     const ports = await navigator.serial.getPorts();
     return ports.map((port, index) => {
       const info = port.getInfo();
-      const vendorName = info.usbVendorId
-        ? USB_SERIAL_VENDORS[info.usbVendorId] ?? 'Unknown'
-        : 'Unknown';
-      const vid = info.usbVendorId
-        ? `0x${info.usbVendorId.toString(16).padStart(4, '0')}`
-        : '—';
-      const pid = info.usbProductId
-        ? `0x${info.usbProductId.toString(16).padStart(4, '0')}`
-        : '—';
       return {
         port,
         index,
         vendorId: info.usbVendorId,
         productId: info.usbProductId,
-        vendorName,
-        label: `${vendorName} (${vid}:${pid})`,
+        ...describeSerialPort(port),
         isBMS: false,
       };
     });
@@ -227,30 +368,18 @@ export class BMSSerial {
     port: SerialPort,
     baudRate: number = 9600
   ): Promise<boolean> {
+    const transport = new WebSerialTransport(port, baudRate);
     try {
-      await port.open({
-        baudRate,
-        dataBits: 8,
-        stopBits: 1,
-        parity: 'none',
-        bufferSize: 4096,
-        flowControl: 'none',
-      });
+      await transport.open();
 
       // Write HWINFO read packet
-      const packet = buildReadPacket(JBD_CMD_HWINFO);
-      if (port.writable) {
-        const writer = port.writable.getWriter();
-        await writer.write(packet);
-        writer.releaseLock();
-      }
+      await transport.write(buildReadPacket(JBD_CMD_HWINFO));
 
       // Wait for response
       let found = false;
-      if (port.readable) {
-        const reader = port.readable.getReader();
-        const chunks: Uint8Array[] = [];
-        let total = 0;
+      if (transport.readable) {
+        const reader = transport.readable.getReader();
+        const parser = new JBDFrameParser();
         const deadline = Date.now() + PROBE_TIMEOUT;
         try {
           while (Date.now() < deadline) {
@@ -266,11 +395,8 @@ export class BMSSerial {
               ),
             ]);
             if (result.done || !result.value) break;
-            chunks.push(result.value);
-            total += result.value.length;
-            const merged = mergeChunks(chunks, total);
-            const parsed = parseResponsePacket(merged);
-            if (parsed && parsed.register === JBD_CMD_HWINFO) {
+            const frames = parser.push(result.value);
+            if (frames.some((frame) => frame[1] === JBD_CMD_HWINFO)) {
               found = true;
               break;
             }
@@ -280,12 +406,12 @@ export class BMSSerial {
         }
       }
 
-      await port.close();
+      await transport.close();
       return found;
     } catch {
       // Port busy, permission denied, or not a BMS
       try {
-        await port.close();
+        await transport.close();
       } catch {
         /* already closed */
       }
@@ -301,22 +427,12 @@ export class BMSSerial {
     try {
       const port = await navigator.serial.requestPort();
       const info = port.getInfo();
-      const vendorName = info.usbVendorId
-        ? USB_SERIAL_VENDORS[info.usbVendorId] ?? 'Unknown'
-        : 'Unknown';
-      const vid = info.usbVendorId
-        ? `0x${info.usbVendorId.toString(16).padStart(4, '0')}`
-        : '—';
-      const pid = info.usbProductId
-        ? `0x${info.usbProductId.toString(16).padStart(4, '0')}`
-        : '—';
       return {
         port,
         index: 0, // will be re-indexed by caller
         vendorId: info.usbVendorId,
         productId: info.usbProductId,
-        vendorName,
-        label: `${vendorName} (${vid}:${pid})`,
+        ...describeSerialPort(port),
         isBMS: false,
       };
     } catch {
@@ -367,22 +483,14 @@ export class BMSSerial {
 
     this.setState('connecting');
 
+    let port: SerialPort;
     try {
-      this.port = await navigator.serial.requestPort();
-      await this.port.open({
-        baudRate: config.baudRate,
-        dataBits: 8,
-        stopBits: 1,
-        parity: 'none',
-        bufferSize: 4096,
-        flowControl: 'none',
-      });
-
-      this.setState('connected');
+      port = await navigator.serial.requestPort();
     } catch (err) {
       this.setState('error');
       throw err;
     }
+    await this.connectTransport(new WebSerialTransport(port, config.baudRate));
   }
 
   /** Connect to a specific pre-detected port (no browser picker needed) */
@@ -390,17 +498,26 @@ export class BMSSerial {
     port: SerialPort,
     config: SerialConfig = DEFAULT_CONFIG
   ): Promise<void> {
+    await this.connectTransport(new WebSerialTransport(port, config.baudRate));
+  }
+
+  /** Connect over an arbitrary transport (emulator, bridge, replay...) */
+  async connectTransport(transport: BMSTransport): Promise<void> {
     this.setState('connecting');
     try {
-      await port.open({
-        baudRate: config.baudRate,
-        dataBits: 8,
-        stopBits: 1,
-        parity: 'none',
-        bufferSize: 4096,
-        flowControl: 'none',
+      await transport.open();
+      this.transport = transport;
+      this.parser.reset();
+      this.readLoop = this.runReadLoop(transport);
+      this.transportUnsub = transport.onEvent((event) => {
+        // Transport went away underneath us (cable pulled, socket dropped)
+        if (event.type === 'close' && this.transport === transport) {
+          this.releaseTransport();
+          this.setState('disconnected');
+        } else if (event.type === 'error' && this.transport === transport) {
+          this.setState('error');
+        }
       });
-      this.port = port;
       this.setState('connected');
     } catch (err) {
       this.setState('error');
@@ -409,14 +526,15 @@ export class BMSSerial {
   }
 
   async disconnect(): Promise<void> {
+    const transport = this.transport;
+    this.releaseTransport();
     try {
       if (this.reader) {
         await this.reader.cancel();
-        this.reader = null;
       }
-      if (this.port) {
-        await this.port.close();
-        this.port = null;
+      await this.readLoop;
+      if (transport) {
+        await transport.close();
       }
     } catch {
       // Ignore errors during disconnect
@@ -424,70 +542,79 @@ export class BMSSerial {
     this.setState('disconnected');
   }
 
-  // ── Low-level I/O ──────────────────────────────────────────────────────────
-
-  private async write(data: Uint8Array): Promise<void> {
-    if (!this.port?.writable) throw new Error('Port not writable');
-    const writer = this.port.writable.getWriter();
-    try {
-      await writer.write(data);
-      this.emitTraffic('TX', data);
-    } finally {
-      writer.releaseLock();
+  private releaseTransport() {
+    this.transportUnsub?.();
+    this.transportUnsub = null;
+    this.transport = null;
+    for (const waiting of this.pending.values()) {
+      waiting.settle(new PortClosedError('Port closed while waiting for a response'));
     }
   }
 
-  private async readResponse(): Promise<Uint8Array> {
-    if (!this.port?.readable) throw new Error('Port not readable');
-
-    const reader = this.port.readable.getReader();
-    this.reader = reader;
-    const chunks: Uint8Array[] = [];
-    let totalLength = 0;
-    let timedOut = false;
-
-    // Set up a timeout that cancels the reader
-    const timer = setTimeout(() => {
-      timedOut = true;
-      reader.cancel().catch(() => {});
-    }, READ_TIMEOUT);
-
-    try {
-      while (true) {
-        const { value, done } = await reader.read();
-
-        if (done || !value) break;
-
-        chunks.push(value);
-        totalLength += value.length;
-
-        // Check if we have a complete packet
-        const merged = mergeChunks(chunks, totalLength);
-        const packet = parseResponsePacket(merged);
-        if (packet) {
-          // Emit the complete reassembled frame as a single traffic entry
-          this.emitTraffic('RX', merged);
-          return merged;
+  /**
+   * Background reader: owns the transport's readable from connect until
+   * disconnect and feeds every chunk to the frame parser. Responses are
+   * matched to pending requests in the parser listener.
+   */
+  private async runReadLoop(transport: BMSTransport): Promise<void> {
+    // Non-fatal errors (parity, overrun) hand out a fresh stream; keep going
+    while (this.transport === transport && transport.readable) {
+      const reader = transport.readable.getReader();
+      this.reader = reader;
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) return;
+          if (value) this.parser.push(value);
         }
+      } catch {
+        // Stream errored — retry while the transport is still ours
+      } finally {
+        try { reader.releaseLock(); } catch { /* ignore */ }
+        if (this.reader === reader) this.reader = null;
       }
-
-      // Emit whatever we received (incomplete frame / timeout)
-      const merged = mergeChunks(chunks, totalLength);
-      if (totalLength > 0) {
-        this.emitTraffic('RX', merged);
-      }
-      return merged;
-    } finally {
-      clearTimeout(timer);
-      // Cancel any in-flight read before releasing
-      if (!timedOut) {
-        try { await reader.cancel(); } catch { /* ignore */ }
-      }
-      try { reader.releaseLock(); } catch { /* ignore */ }
-      this.reader = null;
     }
   }
 
+  // ── Low-level I/O ──────────────────────────────────────────────────────────
+
+  private async write(data: Uint8Array): Promise<void> {
+    if (!this.transport) throw new PortClosedError();
+    await this.transport.write(data);
+    this.emitTraffic('TX', data);
+  }
+
+  /**
+   * Register interest in the response for `register`. Resolves with the
+   * parsed frame, or rejects with a BMSError (timeout, bad CRC, closed port).
+   * Frames of the wrong shape for the request are left unmatched. Must be
+   * called before the request is written so a fast reply cannot slip past.
+   */
+  private expectResponse(register: number, expectsData: boolean): Promise<ParsedPacket> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        waiting.settle(
+          waiting.discarded > 0
+            ? new FramingError(register, `${waiting.discarded} byte(s) received but no valid frame`)
+            : new TimeoutError(register, READ_TIMEOUT)
+        );
+      }, READ_TIMEOUT);
+      const waiting: PendingResponse = {
+        expectsData,
+        discarded: 0,
+        settle: (result) => {
+          clearTimeout(timer);
+          if (this.pending.get(register) === waiting) {
+            this.pending.delete(register);
+          }
+          if (result instanceof BMSError) reject(result);
+          else resolve(result);
+        },
+      };
+      this.pending.set(register, waiting);
+    });
+  }
+
   /**
    * Serialise all command access through a mutex so concurrent callers
    * (e.g. polling + user click) don't interleave TX/RX on the wire.
@@ -508,22 +635,31 @@ export class BMSSerial {
   }
 
   private async _sendCommand(packet: Uint8Array): Promise<ParsedPacket> {
+    const register = packet[2];
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
-        await this.write(packet);
-        const response = await this.readResponse();
-        const parsed = parseResponsePacket(response);
-        if (!parsed) {
-          throw new Error('Invalid response packet');
+        if (!this.transport) throw new PortClosedError();
+        const response = this.expectResponse(register, packet[1] === JBD_CMD_READ);
+        try {
+          await this.write(packet);
+        } catch (err) {
+          this.pending.get(register)?.settle(
+            err instanceof BMSError ? err : new PortClosedError(`Write failed: ${String(err)}`)
+          );
+          await response.catch(() => {});
+          throw err;
         }
+        const parsed = await response;
         if (parsed.status !== 0) {
-          throw new Error(`BMS error status: 0x${parsed.status.toString(16)}`);
+          throw new BMSStatusError(register, parsed.status);
         }
         return parsed;
       } catch (err) {
         lastError = err instanceof Error ? err : new Error(String(err));
+        // Retrying cannot help once the port is gone
+        if (err instanceof PortClosedError) break;
         if (attempt < MAX_RETRIES - 1) {
           await sleep(100 * (attempt + 1));
         }
@@ -555,117 +691,205 @@ export class BMSSerial {
 
   async readRegisterUint16(register: number): Promise<number> {
     const response = await this.sendCommand(buildReadPacket(register));
+    if (response.data.length < 2) {
+      throw new FramingError(register, `expected 2 data bytes, got ${response.data.length}`);
+    }
     return (response.data[0] << 8) | response.data[1];
   }
 
   async readRegisterString(register: number): Promise<string> {
     const response = await this.sendCommand(buildReadPacket(register));
-    return decodeString(response.data);
+    return decodeConfigString(response.data);
   }
 
   // ── EEPROM Read (config) ───────────────────────────────────────────────────
 
-  async readConfig(): Promise<BMSConfig> {
-    // Open EEPROM
-    await this.sendCommand(buildEEPROMOpen());
+  /**
+   * Run `body` inside an EEPROM open/close session. A failed open or close
+   * surfaces as EEPROMSessionError; if `body` itself fails, that error wins
+   * and the close is best-effort.
+   */
+  private async withEEPROM<T>(body: () => Promise<T>): Promise<T> {
+    try {
+      await this.sendCommand(buildEEPROMOpen());
+    } catch (err) {
+      throw new EEPROMSessionError('open', err);
+    }
     await sleep(50);
 
+    let result: T;
     try {
-      const readReg = async (reg: number) => {
-        const val = await this.readRegisterUint16(reg);
+      result = await body();
+    } catch (err) {
+      await this.sendCommand(buildEEPROMClose()).catch(() => {});
+      throw err;
+    }
+
+    try {
+      await this.sendCommand(buildEEPROMClose());
+    } catch (err) {
+      throw new EEPROMSessionError('close', err);
+    }
+    return result;
+  }
+
+  async readConfig(): Promise<BMSConfig> {
+    return this.withEEPROM(async () => {
+      const raw = new Map<number, number | string>();
+      for (const address of CONFIG_ADDRESSES) {
+        raw.set(address, await this.readConfigRegister(address));
         await sleep(30);
-        return val;
-      };
+      }
+      return decodeConfig(raw);
+    });
+  }
 
-      const readStr = async (reg: number) => {
-        const val = await this.readRegisterString(reg);
+  /** Read just the serial number and barcode, which identify the pack */
+  async readPackIdentity(): Promise<Pick<BMSConfig, 'serialNumber' | 'barCode'>> {
+    return this.withEEPROM(async () => {
+      const serialNumber = await this.readRegisterUint16(JBD_REG.SerialNumber);
+      await sleep(30);
+      const barCode = await this.readRegisterString(JBD_REG.BarCode);
+      return { serialNumber, barCode };
+    });
+  }
+
+  /** Read a config register as a word, or as text for string registers */
+  private async readConfigRegister(address: number): Promise<number | string> {
+    return fieldsAtAddress(address)[0]?.encoding === 'string'
+      ? this.readRegisterString(address)
+      : this.readRegisterUint16(address);
+  }
+
+  private async writeConfigRegister(address: number, value: number | string): Promise<void> {
+    await this.sendCommand(
+      typeof value === 'string'
+        ? buildWritePacket(address, encodeConfigString(value))
+        : buildWriteUint16(address, value)
+    );
+  }
+
+  /**
+   * Write a set of registers in one EEPROM session, in order. The current
+   * values are captured first, and packed registers are merged into them;
+   * each write is read back, and if any step fails, every register touched
+   * so far is restored and ConfigWriteError is thrown.
+   */
+  async writeConfig(
+    changes: RegisterWrite[],
+    onProgress?: (progress: ConfigWriteProgress) => void
+  ): Promise<void> {
+    if (changes.length === 0) return;
+    const total = changes.length;
+
+    await this.withEEPROM(async () => {
+      const originals: (number | string)[] = [];
+      for (const [index, { address }] of changes.entries()) {
+        onProgress?.({ phase: 'capture', index, total, register: address });
+        originals.push(await this.readConfigRegister(address));
         await sleep(30);
-        return val;
-      };
+      }
 
-      const config: BMSConfig = {
-        designCapacity: await readReg(JBD_REG.DesignCapacity),
-        cycleCapacity: await readReg(JBD_REG.CycleCapacity),
-        fullChargeVol: await readReg(JBD_REG.FullChargeVol),
-        chargeEndVol: await readReg(JBD_REG.ChargeEndVol),
-        dischargingRate: await readReg(JBD_REG.DischargingRate),
-        chgOverTemp: decodeTemp(await readReg(JBD_REG.ChgOverTemp)),
-        chgOTRelease: decodeTemp(await readReg(JBD_REG.ChgOTRelease)),
-        chgLowTemp: decodeTemp(await readReg(JBD_REG.ChgLowTemp)),
-        chgUTRelease: decodeTemp(await readReg(JBD_REG.ChgUTRelease)),
-        disOverTemp: decodeTemp(await readReg(JBD_REG.DisOverTemp)),
-        dsgOTRelease: decodeTemp(await readReg(JBD_REG.DsgOTRelease)),
-        disLowTemp: decodeTemp(await readReg(JBD_REG.DisLowTemp)),
-        dsgUTRelease: decodeTemp(await readReg(JBD_REG.DsgUTRelease)),
-        packOverVoltage: await readReg(JBD_REG.PackOverVoltage),
-        packOVRelease: await readReg(JBD_REG.PackOVRelease),
-        packUnderVoltage: await readReg(JBD_REG.PackUnderVoltage),
-        packUVRelease: await readReg(JBD_REG.PackUVRelease),
-        cellOverVoltage: await readReg(JBD_REG.CellOverVoltage),
-        cellOVRelease: await readReg(JBD_REG.CellOVRelease),
-        cellUnderVoltage: await readReg(JBD_REG.CellUnderVoltage),
-        cellUVRelease: await readReg(JBD_REG.CellUVRelease),
-        overChargeCurrent: await readReg(JBD_REG.OverChargeCurrent),
-        overDisCurrent: await readReg(JBD_REG.OverDisCurrent),
-        balanceStartVoltage: await readReg(JBD_REG.BalanceStartVoltage),
-        balanceWindow: await readReg(JBD_REG.BalanceWindow),
-        senseResistor: await readReg(JBD_REG.SenseResistor),
-        batteryConfig: await readReg(JBD_REG.BatteryConfig),
-        ntcConfig: await readReg(JBD_REG.NtcConfig),
-        packNum: await readReg(JBD_REG.PackNum),
-        fetCtrlTime: await readReg(JBD_REG.FetCtrlTime),
-        ledDispTime: await readReg(JBD_REG.LedDispTime),
-        hardCellOverVoltage: await readReg(JBD_REG.HardCellOverVoltage),
-        hardCellUnderVoltage: await readReg(JBD_REG.HardCellUnderVoltage),
-        serialNumber: await readReg(JBD_REG.SerialNumber),
-        cycleCount: await readReg(JBD_REG.CycleCount),
-        manufactureDate: await readReg(JBD_REG.ManufactureDate),
-        manufacturerName: await readStr(JBD_REG.ManufacturerName),
-        deviceName: await readStr(JBD_REG.DeviceName),
-        barCode: await readStr(JBD_REG.BarCode),
-      };
+      let completed = 0;
+      try {
+        for (const [index, { address, value: change }] of changes.entries()) {
+          // Packed registers keep the device's bits that no field decodes
+          const original = originals[index];
+          const value =
+            typeof change === 'number' && typeof original === 'number'
+              ? mergeRegister(address, change, original)
+              : change;
+          onProgress?.({ phase: 'write', index, total, register: address });
+          await this.writeConfigRegister(address, value);
+          await sleep(30);
+
+          onProgress?.({ phase: 'verify', index, total, register: address });
+          const actual = await this.readConfigRegister(address);
+          if (actual !== value) throw new VerifyError(address, value, actual);
+          completed++;
+          await sleep(30);
+        }
+      } catch (err) {
+        // The failing register may have been partly applied, so restore it too
+        const failed = changes[Math.min(completed, total - 1)].address;
+        let rolledBack = true;
+        for (let i = Math.min(completed, total - 1); i >= 0; i--) {
+          onProgress?.({ phase: 'rollback', index: i, total, register: changes[i].address });
+          try {
+            await this.writeConfigRegister(changes[i].address, originals[i]);
+          } catch {
+            rolledBack = false;
+          }
+          await sleep(30);
+        }
+        throw new ConfigWriteError(failed, err, completed, rolledBack);
+      }
 
-      return config;
-    } finally {
-      // Always close EEPROM
-      await this.sendCommand(buildEEPROMClose()).catch(() => {});
-    }
+      onProgress?.({ phase: 'done', index: total, total, register: changes[total - 1].address });
+    });
   }
 
   // ── Write Operations ───────────────────────────────────────────────────────
 
   async writeRegister(register: number, value: number): Promise<void> {
-    await this.sendCommand(buildEEPROMOpen());
-    await sleep(50);
-    try {
-      await this.sendCommand(buildWriteUint16(register, value));
-    } finally {
-      await this.sendCommand(buildEEPROMClose()).catch(() => {});
-    }
+    await this.withEEPROM(() => this.sendCommand(buildWriteUint16(register, value)));
   }
 
   async writeTempRegister(register: number, celsius: number): Promise<void> {
     await this.writeRegister(register, encodeTemp(celsius));
   }
 
+  /**
+   * Write calibration references in one EEPROM session. The calibration
+   * registers cannot be read back; check the result by re-reading HWINFO
+   * and CELLINFO.
+   */
+  async writeCalibration(writes: RegisterWrite[]): Promise<void> {
+    await this.withEEPROM(async () => {
+      for (const { address, value } of writes) {
+        await this.sendCommand(buildWriteUint16(address, Number(value)));
+        await sleep(30);
+      }
+    });
+  }
+
   async setMosfet(charge: boolean, discharge: boolean): Promise<void> {
-    await this.sendCommand(buildEEPROMOpen());
-    await sleep(50);
-    try {
-      await this.sendCommand(buildMosfetControl(charge, discharge));
-    } finally {
-      await this.sendCommand(buildEEPROMClose()).catch(() => {});
-    }
+    await this.withEEPROM(() => this.sendCommand(buildMosfetControl(charge, discharge)));
   }
 
   async writeStringRegister(register: number, value: string): Promise<void> {
-    const encoded = new TextEncoder().encode(value);
-    await this.sendCommand(buildEEPROMOpen());
-    await sleep(50);
+    await this.withEEPROM(() => this.sendCommand(buildWritePacket(register, encodeConfigString(value))));
+  }
+
+  // ── Control registers ──────────────────────────────────────────────────────
+
+  async setRemainingCapacity(remainingAh: number): Promise<void> {
+    await this.withEEPROM(() => this.sendCommand(buildCapacityWrite(remainingAh)));
+  }
+
+  /** Force balancing on the cells in `mask`; 0 returns to automatic balancing */
+  async setBalance(mask: number): Promise<void> {
+    await this.withEEPROM(() => this.sendCommand(buildBalanceControl(mask)));
+  }
+
+  async reboot(): Promise<void> {
+    await this.restartWith(buildReset());
+  }
+
+  async factoryReset(): Promise<void> {
+    await this.restartWith(buildFactoryReset());
+  }
+
+  /**
+   * Send a command that restarts the BMS. It may restart before answering
+   * the EEPROM close, so only a failure up to and including the command
+   * itself is reported.
+   */
+  private async restartWith(packet: Uint8Array): Promise<void> {
     try {
-      await this.sendCommand(buildWritePacket(register, encoded));
-    } finally {
-      await this.sendCommand(buildEEPROMClose()).catch(() => {});
+      await this.withEEPROM(() => this.sendCommand(packet));
+    } catch (err) {
+      if (!(err instanceof EEPROMSessionError && err.phase === 'close')) throw err;
     }
   }
 
@@ -687,19 +911,23 @@ export class BMSSerial {
 
 // ── Utilities ────────────────────────────────────────────────────────────────
 
-function mergeChunks(chunks: Uint8Array[], totalLength: number): Uint8Array {
-  const result = new Uint8Array(totalLength);
-  let offset = 0;
-  for (const chunk of chunks) {
-    result.set(chunk, offset);
-    offset += chunk.length;
-  }
-  return result;
-}
-
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 // Singleton instance
 export const bmsSerial = new BMSSerial();
+
+/**
+ * Read the config of a pack other than the one `bmsSerial` is connected
+ * to, over its own short-lived connection.
+ */
+export async function readConfigOnce(transport: BMSTransport): Promise<BMSConfig> {
+  const serial = new BMSSerial();
+  await serial.connectTransport(transport);
+  try {
+    return await serial.readConfig();
+  } finally {
+    await serial.disconnect();
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * The open-circuit-voltage SOC curve: VoltageCap100 … VoltageCap10 plus the
+ * charge end voltage as the 0% point, all per-cell mV. The editor and the
+ * emulator both read it through SOC_CURVE_POINTS, so they agree on what 0% is.
+ */
+import type { BMSConfig } from './jbd-protocol';
+import { registerForKey } from './jbd-registers';
+import { OCV_KEYS, type ChemistryProfile } from './profiles';
+
+/** Curve points from 100% down to 0%, with the config field each maps to */
+export const SOC_CURVE_POINTS: { soc: number; key: keyof BMSConfig }[] = [
+  ...OCV_KEYS.map((key, i) => ({ soc: 100 - i * 10, key })),
+  { soc: 0, key: 'chargeEndVol' },
+];
+
+/** Register address of each curve point, in the same order */
+export const SOC_CURVE_REGISTERS: number[] = SOC_CURVE_POINTS.map(({ key }) => registerForKey(key).address);
+
+/** Cell mV at `soc` (%), interpolating linearly along a 100 → 0% curve */
+export function ocvAt(curve: number[], soc: number): number {
+  const pct = Math.min(100, Math.max(0, soc));
+  for (let i = 1; i < SOC_CURVE_POINTS.length; i++) {
+    const lower = SOC_CURVE_POINTS[i].soc;
+    if (pct >= lower) {
+      const upper = SOC_CURVE_POINTS[i - 1].soc;
+      return curve[i] + ((curve[i - 1] - curve[i]) * (pct - lower)) / (upper - lower);
+    }
+  }
+  return curve[curve.length - 1];
+}
+
+/** Smallest step between neighbouring points, mV */
+const MIN_STEP = 1;
+
+export function curveFromConfig(config: BMSConfig): number[] {
+  return SOC_CURVE_POINTS.map(({ key }) => Number(config[key]));
+}
+
+/** Reference curve for a chemistry, in the same 100 → 0% order */
+export function curveFromProfile(profile: ChemistryProfile): number[] {
+  return [...profile.ocvCurve, profile.chargeEndVol];
+}
+
+/** `config` with the curve written into its VoltageCap and charge end fields */
+export function applyCurve(config: BMSConfig, curve: number[]): BMSConfig {
+  const next = { ...config };
+  SOC_CURVE_POINTS.forEach(({ key }, i) => Object.assign(next, { [key]: curve[i] }));
+  return next;
+}
+
+export function isMonotonic(curve: number[]): boolean {
+  return curve.every((v, i) => i === 0 || v < curve[i - 1]);
+}
+
+/**
+ * Move point `index` to `mv`, clamped between its neighbours so the curve
+ * keeps falling from 100% to 0%.
+ */
+export function movePoint(curve: number[], index: number, mv: number): number[] {
+  const upper = index > 0 ? curve[index - 1] - MIN_STEP : Infinity;
+  const lower = index < curve.length - 1 ? curve[index + 1] + MIN_STEP : 0;
+  const clamped = Math.round(Math.min(upper, Math.max(lower, mv)));
+  return curve.map((v, i) => (i === index ? clamped : v));
+}
+
+/** Raise points as needed, from 0% upwards, until the curve is strictly falling */
+export function makeMonotonic(curve: number[]): number[] {
+  const out = [...curve];
+  for (let i = out.length - 2; i >= 0; i--) {
+    out[i] = Math.max(out[i], out[i + 1] + MIN_STEP);
+  }
+  return out;
+}
+
+// ── Rest-voltage log ─────────────────────────────────────────────────────────
+
+export interface RestSample {
+  soc: number; // %
+  mv: number; // per-cell rest voltage
+}
+
+/**
+ * Parse a log of "soc, voltage" lines (comma, semicolon, tab or space
+ * separated). Voltages below 10 are taken as volts. Lines that do not start
+ * with two numbers, such as headers, are skipped.
+ */
+export function parseRestLog(text: string): RestSample[] {
+  const samples: RestSample[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [a, b] = line.trim().split(/[,;\t ]+/).map(Number);
+    if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+    if (a < 0 || a > 100 || b <= 0) continue;
+    samples.push({ soc: a, mv: b < 10 ? b * 1000 : b });
+  }
+  return samples.sort((x, y) => x.soc - y.soc);
+}
+
+/**
+ * Fit the curve to logged samples by linear interpolation at each SOC
+ * point. Points outside the logged SOC range keep their value from `base`.
+ */
+export function fitCurve(samples: RestSample[], base: number[]): number[] {
+  if (samples.length < 2) return base;
+  const fitted = SOC_CURVE_POINTS.map(({ soc }, i) => {
+    const hi = samples.findIndex((s) => s.soc >= soc);
+    const b = samples[hi];
+    if (b?.soc === soc) {
+      const same = samples.filter((s) => s.soc === soc);
+      return Math.round(same.reduce((sum, s) => sum + s.mv, 0) / same.length);
+    }
+    if (hi <= 0) return base[i];
+    const a = samples[hi - 1];
+    return Math.round(a.mv + ((soc - a.soc) / (b.soc - a.soc)) * (b.mv - a.mv));
+  });
+  return makeMonotonic(fitted);
+}
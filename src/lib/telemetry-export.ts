@@ -0,0 +1,163 @@
+/**
+ * Export of recorded telemetry: CSV with one column per cell, sensor and
+ * protection flag for spreadsheets, or NDJSON with the stored records as-is.
+ */
+import { PROTECTION_FLAGS, isCellBalancing } from './jbd-protocol';
+import type { TelemetryRecord } from './history';
+
+export type ExportFormat = 'csv' | 'ndjson';
+export type ColumnNaming = 'label' | 'snake';
+export type TimeFormat = 'iso' | 'local' | 'epoch-ms' | 'epoch-s';
+export type VoltageUnit = 'V' | 'mV';
+export type TemperatureUnit = 'C' | 'F';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** "Pack Voltage [V]" or "pack_voltage_v" */
+  naming: ColumnNaming;
+  time: TimeFormat;
+  /** Unit for cell voltages; pack voltage is always V */
+  cellVoltage: VoltageUnit;
+  temperature: TemperatureUnit;
+  /** ';' suits spreadsheets in locales with a decimal comma */
+  delimiter: ',' | ';' | '\t';
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  naming: 'label',
+  time: 'iso',
+  cellVoltage: 'mV',
+  temperature: 'C',
+  delimiter: ',',
+};
+
+interface Column {
+  label: string;
+  unit?: string;
+  value: (r: TelemetryRecord) => string | number | undefined;
+}
+
+function columnName(column: Column, naming: ColumnNaming): string {
+  if (naming === 'label') return column.unit ? `${column.label} [${column.unit}]` : column.label;
+  const unit = column.unit ? `_${column.unit.replace('°', '').replace('%', 'pct')}` : '';
+  return `${column.label}${unit}`
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .toLowerCase();
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+export function formatExportTime(time: number, format: TimeFormat): string | number {
+  switch (format) {
+    case 'iso':
+      return new Date(time).toISOString();
+    case 'epoch-ms':
+      return time;
+    case 'epoch-s':
+      return time / 1000;
+    case 'local': {
+      // Parsed as a date-time by common spreadsheets
+      const d = new Date(time);
+      return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+    }
+  }
+}
+
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+/** CSV columns for the widest cell and sensor counts in `records` */
+function csvColumns(records: TelemetryRecord[], options: ExportOptions): Column[] {
+  // Not Math.max(...records): an export can hold more records than a call takes arguments
+  const cellCount = records.reduce((n, r) => Math.max(n, r.cells.cellVoltages.length), 0);
+  const tempCount = records.reduce((n, r) => Math.max(n, r.hardware.temperatures.length), 0);
+  const mv = options.cellVoltage === 'mV';
+  const fahrenheit = options.temperature === 'F';
+  const bit = (on: boolean) => (on ? 1 : 0);
+
+  return [
+    { label: 'Time', value: (r) => formatExportTime(r.time, options.time) },
+    { label: 'Session', value: (r) => r.sessionId },
+    { label: 'Resolution', unit: 's', value: (r) => r.resolution / 1000 },
+    { label: 'Samples', value: (r) => r.count },
+    { label: 'Pack Voltage', unit: 'V', value: (r) => round(r.hardware.voltage, 3) },
+    { label: 'Current', unit: 'A', value: (r) => round(r.hardware.current, 3) },
+    { label: 'Power', unit: 'W', value: (r) => round(r.hardware.voltage * r.hardware.current, 1) },
+    { label: 'Remaining Capacity', unit: 'Ah', value: (r) => round(r.hardware.remainingCapacity, 3) },
+    { label: 'Full Capacity', unit: 'Ah', value: (r) => round(r.hardware.fullCapacity, 3) },
+    { label: 'SOC', unit: '%', value: (r) => round(r.hardware.rsoc, 1) },
+    { label: 'Cycles', value: (r) => r.hardware.cycles },
+    ...Array.from({ length: cellCount }, (_, i): Column => ({
+      label: `Cell ${i + 1}`,
+      unit: options.cellVoltage,
+      value: (r) => {
+        const v = r.cells.cellVoltages[i];
+        return v === undefined ? undefined : mv ? round(v * 1000, 1) : round(v, 4);
+      },
+    })),
+    ...Array.from({ length: tempCount }, (_, i): Column => ({
+      label: `Temp ${i + 1}`,
+      unit: fahrenheit ? '°F' : '°C',
+      value: (r) => {
+        const t = r.hardware.temperatures[i];
+        return t === undefined ? undefined : round(fahrenheit ? (t * 9) / 5 + 32 : t, 1);
+      },
+    })),
+    { label: 'Charge FET', value: (r) => bit(r.hardware.chargeEnabled) },
+    { label: 'Discharge FET', value: (r) => bit(r.hardware.dischargeEnabled) },
+    ...PROTECTION_FLAGS.map(
+      (flag): Column => ({ label: flag.label, value: (r) => bit(!!r.hardware.protectionFlags[flag.key]) })
+    ),
+    {
+      label: 'Balancing Cells',
+      value: (r) =>
+        Array.from({ length: cellCount }, (_, i) => i)
+          .filter((i) => isCellBalancing(r.hardware, i))
+          .map((i) => i + 1)
+          .join(' '),
+    },
+  ];
+}
+
+function csvField(value: string | number | undefined, delimiter: string): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return text.includes(delimiter) || text.includes('"') || text.includes('\n')
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+export function toCSV(records: TelemetryRecord[], options: ExportOptions): string {
+  const columns = csvColumns(records, options);
+  const lines = [
+    columns.map((c) => csvField(columnName(c, options.naming), options.delimiter)).join(options.delimiter),
+    ...records.map((r) => columns.map((c) => csvField(c.value(r), options.delimiter)).join(options.delimiter)),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * One stored record per line, unchanged apart from an added ISO timestamp.
+ * Units are those of BMSHardwareInfo / BMSCellInfo.
+ */
+export function toNDJSON(records: TelemetryRecord[]): string {
+  return records.map((r) => JSON.stringify({ timestamp: new Date(r.time).toISOString(), ...r })).join('\n') + '\n';
+}
+
+export function exportTelemetry(records: TelemetryRecord[], options: ExportOptions): { text: string; mimeType: string } {
+  return options.format === 'csv'
+    ? { text: toCSV(records, options), mimeType: 'text/csv' }
+    : { text: toNDJSON(records), mimeType: 'application/x-ndjson' };
+}
+
+export function exportFileName(deviceId: string, from: number, to: number, format: ExportFormat): string {
+  const name = deviceId.replace(/[^\w.-]+/g, '_');
+  const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return `jbd-${name}-${day(from)}_${day(to)}.${format === 'csv' ? 'csv' : 'ndjson'}`;
+}
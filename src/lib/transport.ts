@@ -0,0 +1,195 @@
+/**
+ * Byte transports for JBD BMS communication.
+ *
+ * BMSSerial speaks the JBD protocol over any BMSTransport; the Web Serial
+ * implementation lives here, other transports (emulator, bridges, replays)
+ * only need to provide the same open/close/write/readable surface.
+ */
+
+// ── Web Serial types ─────────────────────────────────────────────────────────
+
+declare global {
+  interface Navigator {
+    serial: {
+      requestPort(options?: SerialPortRequestOptions): Promise<SerialPort>;
+      getPorts(): Promise<SerialPort[]>;
+    };
+  }
+
+  interface SerialPortRequestOptions {
+    filters?: SerialPortFilter[];
+  }
+
+  interface SerialPortFilter {
+    usbVendorId?: number;
+    usbProductId?: number;
+  }
+
+  interface SerialPort {
+    open(options: SerialOptions): Promise<void>;
+    close(): Promise<void>;
+    readable: ReadableStream<Uint8Array> | null;
+    writable: WritableStream<Uint8Array> | null;
+    getInfo(): SerialPortInfo;
+  }
+
+  interface SerialOptions {
+    baudRate: number;
+    dataBits?: number;
+    stopBits?: number;
+    parity?: 'none' | 'even' | 'odd';
+    bufferSize?: number;
+    flowControl?: 'none' | 'hardware';
+  }
+
+  interface SerialPortInfo {
+    usbVendorId?: number;
+    usbProductId?: number;
+  }
+}
+
+// ── Transport interface ──────────────────────────────────────────────────────
+
+export type TransportEvent =
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'error'; error: Error };
+
+export type TransportListener = (event: TransportEvent) => void;
+
+export interface BMSTransport {
+  /** Human-readable description, e.g. "FTDI (0x0403:0x6001)" */
+  readonly label: string;
+  readonly isOpen: boolean;
+  /** Incoming bytes. Only valid while open; one reader at a time. */
+  readonly readable: ReadableStream<Uint8Array> | null;
+
+  open(): Promise<void>;
+  close(): Promise<void>;
+  write(data: Uint8Array): Promise<void>;
+
+  /** Subscribe to lifecycle events. Returns unsubscribe function. */
+  onEvent(listener: TransportListener): () => void;
+}
+
+/**
+ * Listener bookkeeping shared by transport implementations.
+ */
+export abstract class BaseTransport implements BMSTransport {
+  abstract readonly label: string;
+  abstract readonly isOpen: boolean;
+  abstract readonly readable: ReadableStream<Uint8Array> | null;
+
+  abstract open(): Promise<void>;
+  abstract close(): Promise<void>;
+  abstract write(data: Uint8Array): Promise<void>;
+
+  private listeners: Set<TransportListener> = new Set();
+
+  onEvent(listener: TransportListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  protected emit(event: TransportEvent) {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+// ── Web Serial transport ─────────────────────────────────────────────────────
+
+/** Known USB-serial adapter vendors */
+export const USB_SERIAL_VENDORS: Record<number, string> = {
+  0x0403: 'FTDI',
+  0x1a86: 'CH340',
+  0x10c4: 'CP210x',
+  0x067b: 'PL2303',
+  0x2341: 'Arduino',
+  0x1d6b: 'Linux USB',
+  0x239a: 'Adafruit',
+  0x2e8a: 'Raspberry Pi',
+  0x0d28: 'ARM DAPLink',
+  0x303a: 'Espressif',
+};
+
+/** Label a port as "Vendor (0xVID:0xPID)" */
+export function describeSerialPort(port: SerialPort): {
+  vendorName: string;
+  label: string;
+} {
+  const info = port.getInfo();
+  const vendorName = info.usbVendorId
+    ? USB_SERIAL_VENDORS[info.usbVendorId] ?? 'Unknown'
+    : 'Unknown';
+  const vid = info.usbVendorId
+    ? `0x${info.usbVendorId.toString(16).padStart(4, '0')}`
+    : '—';
+  const pid = info.usbProductId
+    ? `0x${info.usbProductId.toString(16).padStart(4, '0')}`
+    : '—';
+  return { vendorName, label: `${vendorName} (${vid}:${pid})` };
+}
+
+export class WebSerialTransport extends BaseTransport {
+  private _isOpen = false;
+
+  constructor(
+    readonly port: SerialPort,
+    readonly baudRate: number = 9600
+  ) {
+    super();
+  }
+
+  static isSupported(): boolean {
+    return 'serial' in navigator;
+  }
+
+  get label(): string {
+    return describeSerialPort(this.port).label;
+  }
+
+  get isOpen(): boolean {
+    return this._isOpen;
+  }
+
+  get readable(): ReadableStream<Uint8Array> | null {
+    return this._isOpen ? this.port.readable : null;
+  }
+
+  async open(): Promise<void> {
+    await this.port.open({
+      baudRate: this.baudRate,
+      dataBits: 8,
+      stopBits: 1,
+      parity: 'none',
+      bufferSize: 4096,
+      flowControl: 'none',
+    });
+    this._isOpen = true;
+    this.emit({ type: 'open' });
+  }
+
+  async close(): Promise<void> {
+    if (!this._isOpen) return;
+    this._isOpen = false;
+    try {
+      await this.port.close();
+    } finally {
+      this.emit({ type: 'close' });
+    }
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this._isOpen || !this.port.writable) {
+      throw new Error('Port not writable');
+    }
+    const writer = this.port.writable.getWriter();
+    try {
+      await writer.write(data);
+    } finally {
+      writer.releaseLock();
+    }
+  }
+}